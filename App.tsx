@@ -1,62 +1,337 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
 import { Library } from './components/Library';
 import { Reader } from './components/Reader';
-import { processMangaFile } from './utils/zipUtils';
-import { MangaItem, LibraryItem } from './types';
+import { Settings } from './components/Settings';
+import { DeckManager } from './components/DeckManager';
+import { ImportReviewDialog } from './components/ImportReviewDialog';
+import { openMangaFiles } from './utils/importer';
+import { ImportReport, selectPages, watchInspection } from './utils/importReview';
+import { createProviderChain } from './utils/ocrProviders';
+import { clearProcessedPages } from './utils/imageProcessing';
+import { SearchHit, indexPageOcr, removeMangaFromIndex } from './utils/search';
+import { addManga, storeMangaPages, loadLibrary, loadManga, releaseManga, deleteManga, getStorageUsage, saveProgress, saveBookmarks, saveReaderSettings, loadSettings, saveSettings, savePageOcr, saveDeckCard, saveLibraryDetails, setCoverPage, LibraryDetails } from './utils/storage';
+import { MangaItem, MangaSource, LibraryItem, StorageUsage, Bookmark, ReaderSettings, AppSettings, ViewMode, PageOcr, DeckCard, LibraryCollection, LibrarySort, DEFAULT_APP_SETTINGS } from './types';
 
 function App() {
-  const [view, setView] = useState<'library' | 'reader'>('library');
+  const [view, setView] = useState<ViewMode>('library');
   const [currentManga, setCurrentManga] = useState<MangaItem | null>(null);
+  const [highlight, setHighlight] = useState<SearchHit | null>(null);
   const [libraryItems, setLibraryItems] = useState<LibraryItem[]>([]);
+  const [storageUsage, setStorageUsage] = useState<StorageUsage | null>(null);
   const [isLoading, setIsLoading] = useState(false);
+  const [settings, setSettings] = useState<AppSettings>(DEFAULT_APP_SETTINGS);
+  const ocrProvider = useMemo(() => createProviderChain(settings.ocrProviders), [settings.ocrProviders]);
+  // Fraction of pages stored, per title still being imported
+  const [importProgress, setImportProgress] = useState<Record<string, number>>({});
+  // The open source of each title still being imported, so reopening it can read pages not yet stored
+  const importSources = useRef(new Map<string, MangaSource>());
+  // An opened import waiting for the user to review its pages
+  const [pendingImport, setPendingImport] = useState<{ source: MangaSource; report: ImportReport } | null>(null);
+  const stopImportCheck = useRef<(() => void) | null>(null);
 
-  const handleUpload = async (file: File) => {
+  const refreshStorageUsage = () => {
+    getStorageUsage().then(setStorageUsage).catch((error) => {
+      console.error("Failed to read storage usage", error);
+    });
+  };
+
+  // Rebuild the library grid from IndexedDB on startup
+  useEffect(() => {
+    loadLibrary()
+      .then(setLibraryItems)
+      .catch((error) => console.error("Failed to load library", error));
+    refreshStorageUsage();
+    loadSettings()
+      .then(setSettings)
+      .catch((error) => console.error("Failed to load settings", error));
+  }, []);
+
+  const openManga = (manga: MangaItem, hit: SearchHit | null = null) => {
+    if (currentManga) releaseManga(currentManga);
+    setCurrentManga(manga);
+    setHighlight(hit);
+    setView('reader');
+  };
+
+  // Opens the files and shows the review while their pages are checked; nothing is stored until the user confirms
+  const handleUpload = async (files: File[]) => {
     setIsLoading(true);
     try {
-      const manga = await processMangaFile(file);
-      setCurrentManga(manga);
-      
-      // Add to library list (persisting just metadata for this session)
-      setLibraryItems(prev => [
-        ...prev, 
-        { id: manga.id, title: manga.title, coverUrl: manga.coverUrl }
-      ]);
-      
-      setView('reader');
+      const source = await openMangaFiles(files);
+      stopImportCheck.current = watchInspection(source, report => setPendingImport({ source, report }));
     } catch (error) {
       console.error("Failed to process file", error);
-      alert("Failed to process file. Please ensure it is a valid .zip or .cbz file containing images.");
+      alert(`Failed to process file: ${error instanceof Error ? error.message : String(error)}\n\nPlease ensure it is a valid .cbz, .cbr, .cb7, .pdf or .epub file, or a folder of images.`);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const endImportCheck = () => {
+    stopImportCheck.current?.();
+    stopImportCheck.current = null;
+    setPendingImport(null);
+  };
+
+  const handleCancelImport = () => {
+    pendingImport?.source.close();
+    endImportCheck();
+  };
+
+  // Pages the check had not reached yet are imported as they are
+  const handleConfirmImport = async (order: number[]) => {
+    if (!pendingImport) return;
+    endImportCheck();
+    setIsLoading(true);
+    const source = selectPages(pendingImport.source, order);
+    try {
+      let item: LibraryItem;
+      try {
+        item = await addManga(source);
+      } catch (error) {
+        await source.close();
+        throw error;
+      }
+      setLibraryItems(prev => [...prev, item]);
+      setImportProgress(prev => ({ ...prev, [item.id]: 0 }));
+      importSources.current.set(item.id, source);
+
+      // The rest of the pages are stored in the background. This starts before the title opens, so a
+      // failure to open can't leave the import stuck.
+      storeMangaPages(item.id, source, (stored, total) => {
+        setImportProgress(prev => ({ ...prev, [item.id]: stored / total }));
+      })
+        .catch(async (error) => {
+          console.error("Failed to store manga", error);
+          alert(`Failed to finish importing "${item.title}": ${error instanceof Error ? error.message : String(error)}\n\nIt has been removed from your library.`);
+          await deleteManga(item.id).catch(() => undefined);
+          removeMangaFromIndex(item.id);
+          setLibraryItems(prev => prev.filter(i => i.id !== item.id));
+          setCurrentManga(prev => prev?.id === item.id ? null : prev);
+        })
+        .finally(() => {
+          importSources.current.delete(item.id);
+          source.close();
+          setImportProgress(({ [item.id]: _, ...rest }) => rest);
+          refreshStorageUsage();
+        });
+
+      // Start reading right away
+      try {
+        openManga(await loadManga(item.id, source));
+      } catch (error) {
+        console.error("Failed to load manga", error);
+        alert("Failed to load this manga from storage.");
+      }
+    } catch (error) {
+      console.error("Failed to import manga", error);
+      alert(`Failed to add this manga to your library: ${error instanceof Error ? error.message : String(error)}`);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleSelectManga = async (id: string) => {
+    setIsLoading(true);
+    try {
+      openManga(await loadManga(id, importSources.current.get(id)));
+    } catch (error) {
+      console.error("Failed to load manga", error);
+      alert("Failed to load this manga from storage.");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleOpenSearchHit = async (hit: SearchHit) => {
+    setIsLoading(true);
+    try {
+      openManga(await loadManga(hit.mangaId, importSources.current.get(hit.mangaId)), hit);
+    } catch (error) {
+      console.error("Failed to load manga", error);
+      alert("Failed to load this manga from storage.");
     } finally {
       setIsLoading(false);
     }
   };
 
-  const handleSelectManga = (id: string) => {
-    // In a real app with persistence, we would load the manga pages from storage here.
-    // For this memory-only version, we check if it's the currently loaded one.
-    if (currentManga && currentManga.id === id) {
-        setView('reader');
-    } else {
-        alert("In-memory storage limit: Only the most recently uploaded manga is readable.");
+  const handleDeleteManga = async (id: string) => {
+    const item = libraryItems.find(i => i.id === id);
+    if (importProgress[id] !== undefined) {
+      alert("This manga is still being imported. Please wait until it finishes.");
+      return;
+    }
+    if (!item || !confirm(`Delete "${item.title}" from your library?`)) return;
+    try {
+      await deleteManga(id);
+      removeMangaFromIndex(id);
+      clearProcessedPages(id).catch((error) => console.error("Failed to clear processed pages", error));
+      URL.revokeObjectURL(item.coverUrl);
+      setLibraryItems(prev => prev.filter(i => i.id !== id));
+      refreshStorageUsage();
+    } catch (error) {
+      console.error("Failed to delete manga", error);
+      alert("Failed to delete this manga.");
+    }
+  };
+
+  const updateLibraryItem = (id: string, patch: Partial<LibraryItem>) => {
+    setLibraryItems(prev => prev.map(i => i.id === id ? { ...i, ...patch } : i));
+  };
+
+  const handleSaveDetails = (id: string, details: LibraryDetails) => {
+    updateLibraryItem(id, details);
+    saveLibraryDetails(id, details).catch((error) => {
+      console.error("Failed to save title details", error);
+      alert("Failed to save your changes to this title.");
+    });
+  };
+
+  const handleSetCover = async (id: string, page: number) => {
+    if (importProgress[id] !== undefined) {
+      alert("This manga is still being imported. Please wait until it finishes.");
+      return;
+    }
+    try {
+      const coverUrl = await setCoverPage(id, page);
+      const previous = libraryItems.find(i => i.id === id)?.coverUrl;
+      if (previous) URL.revokeObjectURL(previous);
+      updateLibraryItem(id, { coverPage: page, coverUrl });
+    } catch (error) {
+      console.error("Failed to change cover", error);
+      alert("Failed to change the cover of this title.");
+    }
+  };
+
+  const handleProgress = (page: number) => {
+    if (!currentManga) return;
+    updateLibraryItem(currentManga.id, { lastReadPage: page, lastReadAt: Date.now() });
+    saveProgress(currentManga.id, page).catch((error) => console.error("Failed to save progress", error));
+  };
+
+  const handleBookmarksChange = (bookmarks: Bookmark[]) => {
+    if (!currentManga) return;
+    updateLibraryItem(currentManga.id, { bookmarks });
+    saveBookmarks(currentManga.id, bookmarks).catch((error) => console.error("Failed to save bookmarks", error));
+  };
+
+  const handleReaderSettingsChange = (readerSettings: ReaderSettings) => {
+    if (!currentManga) return;
+    updateLibraryItem(currentManga.id, { readerSettings });
+    saveReaderSettings(currentManga.id, readerSettings).catch((error) => console.error("Failed to save reader settings", error));
+  };
+
+  const handlePageAnalyzed = (record: PageOcr) => {
+    savePageOcr(record)
+      .then(() => indexPageOcr(record))
+      .catch((error) => console.error("Failed to save OCR results", error));
+  };
+
+  const handleSaveToDeck = (card: DeckCard) => {
+    saveDeckCard(card).catch((error) => {
+      console.error("Failed to save deck card", error);
+      alert("Failed to save this card to your deck.");
+    });
+  };
+
+  const handleSettingsChange = (next: AppSettings) => {
+    setSettings(next);
+    saveSettings(next).catch((error) => console.error("Failed to save settings", error));
+  };
+
+  const handleCollectionsChange = (collections: LibraryCollection[]) => {
+    handleSettingsChange({ ...settings, collections });
+  };
+
+  const handleSortChange = (librarySort: LibrarySort) => {
+    handleSettingsChange({ ...settings, librarySort });
+  };
+
+  // A restored backup can touch any title and the settings, so both are read back in full.
+  // Titles still importing are half-stored on purpose and must survive the reload.
+  const handleLibraryRestored = async () => {
+    try {
+      const items = await loadLibrary([...importSources.current.keys()]);
+      libraryItems.forEach(item => URL.revokeObjectURL(item.coverUrl));
+      setLibraryItems(items);
+      setSettings(await loadSettings());
+      refreshStorageUsage();
+    } catch (error) {
+      console.error("Failed to reload library", error);
     }
   };
 
   const handleCloseReader = () => {
+    if (currentManga) releaseManga(currentManga);
+    setCurrentManga(null);
+    setHighlight(null);
     setView('library');
   };
 
   if (view === 'reader' && currentManga) {
-    return <Reader manga={currentManga} onClose={handleCloseReader} />;
+    return (
+      <Reader
+        manga={currentManga}
+        onClose={handleCloseReader}
+        onProgress={handleProgress}
+        onBookmarksChange={handleBookmarksChange}
+        onSettingsChange={handleReaderSettingsChange}
+        ocrProvider={ocrProvider}
+        translationLanguage={settings.translationLanguage}
+        onPageAnalyzed={handlePageAnalyzed}
+        highlight={highlight ? { page: highlight.page, box: highlight.bubble.box_2d } : undefined}
+        onSaveToDeck={handleSaveToDeck}
+        input={settings.input}
+      />
+    );
+  }
+
+  if (view === 'settings') {
+    return (
+      <Settings
+        settings={settings}
+        onChange={handleSettingsChange}
+        onBack={() => setView('library')}
+        onLibraryRestored={handleLibraryRestored}
+      />
+    );
+  }
+
+  if (view === 'deck') {
+    return <DeckManager onBack={() => setView('library')} />;
   }
 
   return (
     <>
       <Library 
         items={libraryItems} 
+        storageUsage={storageUsage}
+        importProgress={importProgress}
         onSelect={handleSelectManga} 
         onUpload={handleUpload} 
+        onDelete={handleDeleteManga}
+        onOpenSettings={() => setView('settings')}
+        onOpenDeck={() => setView('deck')}
+        onOpenSearchHit={handleOpenSearchHit}
+        sort={settings.librarySort}
+        onSortChange={handleSortChange}
+        collections={settings.collections}
+        onCollectionsChange={handleCollectionsChange}
+        onSaveDetails={handleSaveDetails}
+        onSetCover={handleSetCover}
+        ocrProvider={ocrProvider}
+        onPageAnalyzed={handlePageAnalyzed}
       />
       
+      {pendingImport && (
+        <ImportReviewDialog
+          title={pendingImport.source.title}
+          report={pendingImport.report}
+          onConfirm={handleConfirmImport}
+          onCancel={handleCancelImport}
+        />
+      )}
+
       {/* Loading Overlay */}
       {isLoading && (
         <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/80 backdrop-blur-sm">
@@ -70,4 +345,4 @@ function App() {
   );
 }
 
-export default App;
\ No newline at end of file
+export default App;
@@ -0,0 +1,140 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { BackupJob } from '../types';
+import { BackupProgress, exportLibraryBackup, importLibraryBackup } from '../utils/backup';
+import { downloadBlob } from '../utils/fileUtils';
+import { loadBackupJob, saveBackupJob } from '../utils/storage';
+
+interface BackupPanelProps {
+  onRestored: () => void; // The library and settings changed underneath the app
+}
+
+export const BackupPanel: React.FC<BackupPanelProps> = ({ onRestored }) => {
+  const [running, setRunning] = useState<BackupJob['kind'] | null>(null);
+  const [progress, setProgress] = useState<BackupProgress | null>(null);
+  const [interrupted, setInterrupted] = useState<BackupJob | null>(null);
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    loadBackupJob()
+      .then(job => setInterrupted(job ?? null))
+      .catch(error => console.error("Failed to read the backup state", error));
+  }, []);
+
+  // Closing the tab is recoverable, but still worth a warning
+  useEffect(() => {
+    if (!running) return;
+    const warn = (e: BeforeUnloadEvent) => e.preventDefault();
+    window.addEventListener('beforeunload', warn);
+    return () => window.removeEventListener('beforeunload', warn);
+  }, [running]);
+
+  const runExport = async () => {
+    setRunning('export');
+    setInterrupted(null);
+    try {
+      const archive = await exportLibraryBackup(setProgress);
+      downloadBlob(archive, `mangalunar-backup-${new Date().toISOString().slice(0, 10)}.tar`);
+    } catch (error) {
+      console.error("Failed to export backup", error);
+      alert(`Could not export the library: ${error instanceof Error ? error.message : String(error)}`);
+    } finally {
+      setRunning(null);
+      setProgress(null);
+    }
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setRunning('import');
+    setInterrupted(null);
+    try {
+      const { added, merged, cards } = await importLibraryBackup(file, setProgress);
+      onRestored();
+      alert(`Backup restored: ${added} titles added, ${merged} merged with titles already here, ${cards} deck cards added.`);
+    } catch (error) {
+      console.error("Failed to import backup", error);
+      alert(`Could not restore the backup: ${error instanceof Error ? error.message : String(error)}`);
+      // Whatever was restored before the failure is already in the library
+      onRestored();
+      loadBackupJob().then(job => setInterrupted(job ?? null), () => undefined);
+    } finally {
+      setRunning(null);
+      setProgress(null);
+    }
+  };
+
+  const discardInterrupted = () => {
+    setInterrupted(null);
+    saveBackupJob(null).catch(error => console.error("Failed to clear the backup state", error));
+  };
+
+  return (
+    <section className="flex flex-col gap-3">
+      <div>
+        <h2 className="text-lg font-semibold">Backup</h2>
+        <p className="text-sm text-white/50">Saves every title with its progress, bookmarks, text recognition results and your deck to one file. Restoring merges it into this library; titles already here are matched by their pages, not duplicated.</p>
+      </div>
+
+      {interrupted && !running && (
+        <div className="flex items-center gap-3 p-3 rounded-xl bg-amber-400/10 border border-amber-400/30 text-sm">
+          <span className="material-symbols-outlined text-amber-400">history</span>
+          <p className="flex-1">
+            {interrupted.kind === 'export'
+              ? `An export stopped after ${interrupted.done.length} of ${interrupted.total} titles.`
+              : `Restoring ${interrupted.fileName ?? 'a backup'} stopped after ${interrupted.done.length} of ${interrupted.total} titles. Choose the same file to continue.`}
+          </p>
+          <button
+            onClick={() => interrupted.kind === 'export' ? runExport() : fileInput.current?.click()}
+            className="px-3 py-1.5 rounded-lg bg-primary hover:bg-primary/80 transition-colors"
+          >
+            Resume
+          </button>
+          <button
+            onClick={discardInterrupted}
+            className="size-8 flex items-center justify-center rounded-lg hover:bg-white/10 transition-colors"
+            aria-label="Dismiss"
+          >
+            <span className="material-symbols-outlined text-lg">close</span>
+          </button>
+        </div>
+      )}
+
+      {running && progress && (
+        <div className="flex flex-col gap-2 p-3 rounded-xl bg-white/5 border border-white/10">
+          <div className="flex justify-between gap-4 text-sm">
+            <span className="truncate">{progress.label}</span>
+            <span className="text-white/50 shrink-0">{progress.done} / {progress.total}</span>
+          </div>
+          <div className="h-1.5 rounded-full bg-white/10 overflow-hidden">
+            <div
+              className="h-full bg-primary transition-all"
+              style={{ width: `${progress.total ? (progress.done / progress.total) * 100 : 0}%` }}
+            />
+          </div>
+        </div>
+      )}
+
+      <input ref={fileInput} type="file" accept=".tar,application/x-tar" className="hidden" onChange={handleImport} />
+      <div className="flex gap-2">
+        <button
+          onClick={runExport}
+          disabled={!!running}
+          className="flex items-center gap-2 px-4 py-2 rounded-lg bg-white/5 hover:bg-white/10 border border-white/10 text-sm transition-colors disabled:opacity-50"
+        >
+          <span className="material-symbols-outlined text-lg">download</span>
+          {running === 'export' ? 'Exporting…' : 'Export library'}
+        </button>
+        <button
+          onClick={() => fileInput.current?.click()}
+          disabled={!!running}
+          className="flex items-center gap-2 px-4 py-2 rounded-lg bg-white/5 hover:bg-white/10 border border-white/10 text-sm transition-colors disabled:opacity-50"
+        >
+          <span className="material-symbols-outlined text-lg">upload</span>
+          {running === 'import' ? 'Restoring…' : 'Restore backup'}
+        </button>
+      </div>
+    </section>
+  );
+};
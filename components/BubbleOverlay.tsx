@@ -0,0 +1,177 @@
+import React, { useState, useEffect, useLayoutEffect, useRef } from 'react';
+import { PageAnalysis, PageCrop, PageTranslation, SpeechBubble } from '../types';
+
+interface BubbleOverlayProps {
+  analysis?: PageAnalysis;
+  // Image to cover; when omitted the overlay fills its (positioned) parent
+  img?: HTMLImageElement | null;
+  translation?: PageTranslation;
+  typeset?: boolean; // Paint translations over the bubbles instead of outlining them
+  highlight?: SpeechBubble['box_2d']; // Area to draw attention to, e.g. a search hit
+  crop?: PageCrop; // Set when the shown image is a trimmed part of the page the boxes refer to
+}
+
+const MAX_FONT_SIZE = 22;
+const MIN_FONT_SIZE = 6;
+
+interface Frame {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+// Tracks where an image sits inside its offset parent, following resizes
+const useImageFrame = (img: HTMLImageElement | null | undefined): Frame | null => {
+  const [frame, setFrame] = useState<Frame | null>(null);
+  useEffect(() => {
+    if (!img) {
+      setFrame(null);
+      return;
+    }
+    const update = () => setFrame({ left: img.offsetLeft, top: img.offsetTop, width: img.offsetWidth, height: img.offsetHeight });
+    update();
+    const observer = new ResizeObserver(update);
+    observer.observe(img);
+    img.addEventListener('load', update);
+    return () => {
+      observer.disconnect();
+      img.removeEventListener('load', update);
+    };
+  }, [img]);
+  return frame;
+};
+
+// Text shrunk step by step until it fits its box, refitted when the page is resized
+const TypesetText: React.FC<{ text: string }> = ({ text }) => {
+  const ref = useRef<HTMLDivElement>(null);
+  const [fontSize, setFontSize] = useState(MAX_FONT_SIZE);
+  const [size, setSize] = useState({ width: 0, height: 0 });
+
+  useEffect(() => {
+    const el = ref.current;
+    if (!el) return;
+    const observer = new ResizeObserver(() => setSize({ width: el.clientWidth, height: el.clientHeight }));
+    observer.observe(el);
+    return () => observer.disconnect();
+  }, []);
+
+  useLayoutEffect(() => {
+    const el = ref.current;
+    if (!el) return;
+    let next = MAX_FONT_SIZE;
+    el.style.fontSize = `${next}px`;
+    while (next > MIN_FONT_SIZE && (el.scrollHeight > el.clientHeight || el.scrollWidth > el.clientWidth)) {
+      next--;
+      el.style.fontSize = `${next}px`;
+    }
+    setFontSize(next);
+  }, [text, size.width, size.height]);
+
+  return (
+    <div
+      ref={ref}
+      className="h-full w-full overflow-hidden flex items-center justify-center text-center leading-tight font-semibold text-black break-words"
+      style={{ fontSize }}
+    >
+      {text}
+    </div>
+  );
+};
+
+// Grows the overlay from the shown (trimmed) image back to the whole page, so boxes keep their coordinates
+const overlayStyle = (frame: Frame | null, crop: PageCrop | undefined): React.CSSProperties => {
+  const keptWidth = crop ? crop.right - crop.left : 1;
+  const keptHeight = crop ? crop.bottom - crop.top : 1;
+  if (!frame) {
+    if (!crop) return { left: 0, top: 0, right: 0, bottom: 0 };
+    return {
+      left: `${(-crop.left / keptWidth) * 100}%`,
+      top: `${(-crop.top / keptHeight) * 100}%`,
+      width: `${100 / keptWidth}%`,
+      height: `${100 / keptHeight}%`,
+    };
+  }
+  if (!crop) return frame;
+  const width = frame.width / keptWidth;
+  const height = frame.height / keptHeight;
+  return { left: frame.left - crop.left * width, top: frame.top - crop.top * height, width, height };
+};
+
+// Outlines detected bubbles over a page; tapping one shows its recognised text.
+// In typeset mode the translation is painted over each bubble instead.
+export const BubbleOverlay: React.FC<BubbleOverlayProps> = ({ analysis, img, translation, typeset, highlight, crop }) => {
+  const frame = useImageFrame(img);
+  const [activeIndex, setActiveIndex] = useState<number | null>(null);
+
+  useEffect(() => setActiveIndex(null), [analysis]);
+
+  if (img !== undefined && !frame) return null;
+
+  const bubbles = analysis?.bubbles ?? [];
+  const active = activeIndex !== null ? bubbles[activeIndex] : null;
+  const translated = translation?.status === 'complete' ? translation.texts : undefined;
+  const activeTranslation = activeIndex !== null ? translated?.[activeIndex] : undefined;
+
+  return (
+    <div
+      className="absolute z-20 pointer-events-none"
+      style={overlayStyle(frame, crop)}
+    >
+      {highlight && (
+        <div
+          className="absolute rounded-md ring-4 ring-amber-400 bg-amber-300/25 animate-pulse"
+          style={{ top: `${highlight[0] / 10}%`, left: `${highlight[1] / 10}%`, height: `${(highlight[2] - highlight[0]) / 10}%`, width: `${(highlight[3] - highlight[1]) / 10}%` }}
+        />
+      )}
+
+      {bubbles.map((bubble, i) => {
+        const [ymin, xmin, ymax, xmax] = bubble.box_2d;
+        const style = { top: `${ymin / 10}%`, left: `${xmin / 10}%`, height: `${(ymax - ymin) / 10}%`, width: `${(xmax - xmin) / 10}%` };
+        const toggle = (e: React.MouseEvent) => { e.stopPropagation(); setActiveIndex(activeIndex === i ? null : i); };
+        if (typeset && translated?.[i]) {
+          return (
+            <button
+              key={i}
+              onClick={toggle}
+              className="absolute pointer-events-auto p-0.5 rounded-[40%] bg-white shadow-[0_0_6px_4px_white]"
+              style={style}
+              aria-label={`Bubble ${i + 1}`}
+            >
+              <TypesetText text={translated[i]} />
+            </button>
+          );
+        }
+        return (
+          <button
+            key={i}
+            onClick={toggle}
+            className={`absolute pointer-events-auto rounded-md border-2 transition-colors ${activeIndex === i ? 'border-primary bg-primary/20' : 'border-primary/60 bg-primary/5 hover:bg-primary/15'}`}
+            style={style}
+            aria-label={`Bubble ${i + 1}`}
+          />
+        );
+      })}
+
+      {active && (
+        <div
+          onClick={(e) => e.stopPropagation()}
+          className="absolute pointer-events-auto max-w-xs -translate-x-1/2 mt-2 p-3 rounded-lg bg-reader-dark/95 backdrop-blur-md border border-white/10 shadow-2xl text-sm text-white"
+          style={{ top: `${active.box_2d[2] / 10}%`, left: `${(active.box_2d[1] + active.box_2d[3]) / 20}%` }}
+        >
+          <p className="whitespace-pre-wrap select-text">{active.text}</p>
+          {activeTranslation && (
+            <p className="mt-2 pt-2 border-t border-white/10 whitespace-pre-wrap select-text text-white/80">{activeTranslation}</p>
+          )}
+          <button
+            onClick={() => navigator.clipboard?.writeText(active.text)}
+            className="mt-2 flex items-center gap-1 text-xs text-white/60 hover:text-white transition-colors"
+          >
+            <span className="material-symbols-outlined text-sm">content_copy</span>
+            Copy
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
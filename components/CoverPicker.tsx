@@ -0,0 +1,100 @@
+import React, { useState, useEffect } from 'react';
+import { LibraryItem, MangaItem } from '../types';
+import { loadManga, releaseManga } from '../utils/storage';
+import { PageImage } from './PageImage';
+
+interface CoverPickerProps {
+  item: LibraryItem;
+  onChoose: (page: number) => void;
+  onClose: () => void;
+}
+
+// Step through a title's pages and pick one to show in the library
+export const CoverPicker: React.FC<CoverPickerProps> = ({ item, onChoose, onClose }) => {
+  const [manga, setManga] = useState<MangaItem | null>(null);
+  const [page, setPage] = useState(item.coverPage ?? 0);
+
+  useEffect(() => {
+    let opened: MangaItem | null = null;
+    let cancelled = false;
+    loadManga(item.id)
+      .then((loaded) => {
+        if (cancelled) {
+          releaseManga(loaded);
+          return;
+        }
+        opened = loaded;
+        setManga(loaded);
+      })
+      .catch((error) => {
+        console.error("Failed to load manga", error);
+        alert("Failed to load this manga from storage.");
+        onClose();
+      });
+    return () => {
+      cancelled = true;
+      if (opened) releaseManga(opened);
+    };
+  }, [item.id]);
+
+  useEffect(() => {
+    manga?.pages.prefetch(page);
+  }, [manga, page]);
+
+  const lastPage = Math.max((manga?.pageCount ?? 1) - 1, 0);
+
+  return (
+    <div onClick={onClose} className="fixed inset-0 z-[100] flex items-center justify-center bg-black/70 backdrop-blur-sm p-4">
+      <div
+        onClick={(e) => e.stopPropagation()}
+        className="w-full max-w-md flex flex-col gap-4 p-6 rounded-xl bg-reader-dark border border-white/10 shadow-2xl text-white"
+      >
+        <h2 className="text-lg font-semibold">Choose a cover</h2>
+        <div className="aspect-[2/3] max-h-[50vh] mx-auto flex items-center justify-center overflow-hidden rounded-lg bg-black/40">
+          {manga && <PageImage pages={manga.pages} index={page} className="max-h-full max-w-full object-contain" />}
+        </div>
+        <div className="flex items-center gap-3">
+          <button
+            onClick={() => setPage(Math.max(page - 1, 0))}
+            disabled={page === 0}
+            className="size-8 flex items-center justify-center rounded hover:bg-white/10 disabled:opacity-30"
+            aria-label="Previous page"
+          >
+            <span className="material-symbols-outlined">chevron_left</span>
+          </button>
+          <input
+            type="range"
+            min={0}
+            max={lastPage}
+            value={page}
+            onChange={(e) => setPage(Number(e.target.value))}
+            disabled={!manga}
+            className="flex-1 accent-primary"
+            aria-label="Page"
+          />
+          <button
+            onClick={() => setPage(Math.min(page + 1, lastPage))}
+            disabled={page === lastPage}
+            className="size-8 flex items-center justify-center rounded hover:bg-white/10 disabled:opacity-30"
+            aria-label="Next page"
+          >
+            <span className="material-symbols-outlined">chevron_right</span>
+          </button>
+          <span className="w-16 text-right text-xs text-white/50">{page + 1} / {lastPage + 1}</span>
+        </div>
+        <div className="flex justify-end gap-2">
+          <button onClick={onClose} className="px-4 py-2 rounded-lg bg-white/5 hover:bg-white/10 text-sm">
+            Cancel
+          </button>
+          <button
+            onClick={() => onChoose(page)}
+            disabled={!manga}
+            className="px-4 py-2 rounded-lg bg-primary hover:bg-primary/90 disabled:opacity-50 text-sm font-bold"
+          >
+            Use this page
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,165 @@
+import React, { useState, useEffect } from 'react';
+import { DeckCard } from '../types';
+import { deleteDeckCard, loadDeck, saveDeckCard } from '../utils/storage';
+import { exportDeckAsApkg, exportDeckAsTsvZip } from '../utils/deckExport';
+import { downloadBlob } from '../utils/fileUtils';
+
+interface DeckManagerProps {
+  onBack: () => void;
+}
+
+type EditableField = 'sentence' | 'word' | 'translation';
+
+const CardImage: React.FC<{ image: Blob }> = ({ image }) => {
+  const [url, setUrl] = useState<string | null>(null);
+  useEffect(() => {
+    const next = URL.createObjectURL(image);
+    setUrl(next);
+    return () => URL.revokeObjectURL(next);
+  }, [image]);
+  return url ? <img src={url} alt="" className="max-h-32 max-w-full rounded-lg bg-white object-contain" /> : null;
+};
+
+// Cards saved from the reader's OCR popover. Edits are written back when a field loses focus.
+export const DeckManager: React.FC<DeckManagerProps> = ({ onBack }) => {
+  const [cards, setCards] = useState<DeckCard[] | null>(null);
+  const [exporting, setExporting] = useState<'apkg' | 'tsv' | null>(null);
+
+  useEffect(() => {
+    loadDeck()
+      .then(setCards)
+      .catch((error) => {
+        console.error("Failed to load deck", error);
+        setCards([]);
+      });
+  }, []);
+
+  const editCard = (id: string, field: EditableField, value: string) => {
+    setCards(prev => prev?.map(card => card.id === id ? { ...card, [field]: value } : card) ?? null);
+  };
+
+  const persistCard = (card: DeckCard) => {
+    const cleaned: DeckCard = {
+      ...card,
+      word: card.word?.trim() || undefined,
+      translation: card.translation?.trim() || undefined,
+    };
+    saveDeckCard(cleaned).catch((error) => {
+      console.error("Failed to save deck card", error);
+      alert("Failed to save your changes to this card.");
+    });
+  };
+
+  const handleDelete = async (card: DeckCard) => {
+    if (!confirm(`Delete the card "${card.word || card.sentence}"?`)) return;
+    try {
+      await deleteDeckCard(card.id);
+      setCards(prev => prev?.filter(other => other.id !== card.id) ?? null);
+    } catch (error) {
+      console.error("Failed to delete deck card", error);
+      alert("Failed to delete this card.");
+    }
+  };
+
+  const handleExport = async (format: 'apkg' | 'tsv') => {
+    if (!cards?.length) return;
+    setExporting(format);
+    try {
+      if (format === 'apkg') {
+        downloadBlob(await exportDeckAsApkg(cards), 'mangalunar.apkg');
+      } else {
+        downloadBlob(await exportDeckAsTsvZip(cards), 'mangalunar-deck.zip');
+      }
+    } catch (error) {
+      console.error("Failed to export deck", error);
+      alert("Failed to export your deck.");
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  const fieldClass = "w-full rounded-lg bg-white/5 border border-white/10 text-white text-sm py-1.5 placeholder:text-white/30 focus:ring-primary focus:border-primary";
+
+  return (
+    <div className="min-h-screen bg-background-dark text-white font-display">
+      <header className="sticky top-0 z-50 flex items-center gap-4 px-6 py-6 bg-background-dark/80 backdrop-blur-md border-b border-white/5">
+        <button
+          onClick={onBack}
+          className="size-10 shrink-0 flex items-center justify-center rounded-lg bg-white/5 hover:bg-white/10 transition-colors text-white"
+          aria-label="Back to library"
+        >
+          <span className="material-symbols-outlined">arrow_back</span>
+        </button>
+        <h1 className="flex-1 text-3xl font-bold tracking-tight">Study deck</h1>
+        <button
+          onClick={() => handleExport('apkg')}
+          disabled={!cards?.length || exporting !== null}
+          className="flex items-center gap-2 px-4 h-10 rounded-lg bg-primary hover:bg-primary/90 disabled:opacity-50 transition-colors text-sm font-bold"
+        >
+          <span className="material-symbols-outlined text-lg">{exporting === 'apkg' ? 'hourglass_top' : 'download'}</span>
+          Anki (.apkg)
+        </button>
+        <button
+          onClick={() => handleExport('tsv')}
+          disabled={!cards?.length || exporting !== null}
+          className="flex items-center gap-2 px-4 h-10 rounded-lg bg-white/5 hover:bg-white/10 disabled:opacity-50 transition-colors text-sm font-bold"
+        >
+          <span className="material-symbols-outlined text-lg">{exporting === 'tsv' ? 'hourglass_top' : 'download'}</span>
+          TSV + images
+        </button>
+      </header>
+
+      <main className="px-6 py-6 max-w-3xl flex flex-col gap-4">
+        {cards === null && <p className="text-white/50">Loading…</p>}
+        {cards?.length === 0 && (
+          <p className="text-white/50">
+            No cards yet. In the reader, select text in OCR mode and choose "Save to deck".
+          </p>
+        )}
+        {cards?.map((card) => (
+          <article key={card.id} className="flex gap-4 p-4 rounded-xl bg-white/5 border border-white/10">
+            {card.image && (
+              <div className="w-32 shrink-0">
+                <CardImage image={card.image} />
+              </div>
+            )}
+            <div className="flex-1 min-w-0 flex flex-col gap-2">
+              <textarea
+                value={card.sentence}
+                onChange={(e) => editCard(card.id, 'sentence', e.target.value)}
+                onBlur={() => persistCard(card)}
+                rows={2}
+                className={`${fieldClass} resize-y`}
+                aria-label="Sentence"
+              />
+              <input
+                value={card.word ?? ''}
+                onChange={(e) => editCard(card.id, 'word', e.target.value)}
+                onBlur={() => persistCard(card)}
+                placeholder="Word"
+                className={fieldClass}
+              />
+              <input
+                value={card.translation ?? ''}
+                onChange={(e) => editCard(card.id, 'translation', e.target.value)}
+                onBlur={() => persistCard(card)}
+                placeholder="Translation"
+                className={fieldClass}
+              />
+              <div className="flex items-center justify-between text-xs text-white/40">
+                <span className="truncate">{card.mangaTitle} · p. {card.page + 1}</span>
+                <button
+                  onClick={() => handleDelete(card)}
+                  className="flex items-center gap-1 hover:text-red-400 transition-colors"
+                >
+                  <span className="material-symbols-outlined text-sm">delete</span>
+                  Delete
+                </button>
+              </div>
+            </div>
+          </article>
+        ))}
+      </main>
+    </div>
+  );
+};
@@ -0,0 +1,97 @@
+import React, { useState, useEffect } from 'react';
+import { ImageAdjustments, PageColorMode, DEFAULT_IMAGE_ADJUSTMENTS } from '../types';
+
+interface ImageAdjustmentsPanelProps {
+  value: ImageAdjustments;
+  onChange: (adjustments: ImageAdjustments) => void;
+}
+
+// Every change reprocesses the pages on screen, so slider drags are only passed on once they settle
+const COMMIT_DELAY = 300;
+
+const COLOR_MODES: { mode: PageColorMode; label: string }[] = [
+  { mode: 'normal', label: 'Original' },
+  { mode: 'grayscale', label: 'Gray' },
+  { mode: 'sepia', label: 'Sepia' },
+  { mode: 'night', label: 'Night' },
+];
+
+const SLIDERS: { key: 'brightness' | 'contrast' | 'gamma'; label: string; min: number; max: number }[] = [
+  { key: 'brightness', label: 'Brightness', min: 0.5, max: 1.5 },
+  { key: 'contrast', label: 'Contrast', min: 0.5, max: 2 },
+  { key: 'gamma', label: 'Gamma', min: 0.5, max: 2 },
+];
+
+export const ImageAdjustmentsPanel: React.FC<ImageAdjustmentsPanelProps> = ({ value, onChange }) => {
+  const [draft, setDraft] = useState(value);
+
+  useEffect(() => setDraft(value), [value]);
+
+  useEffect(() => {
+    if (draft === value) return;
+    const timer = setTimeout(() => onChange(draft), COMMIT_DELAY);
+    return () => clearTimeout(timer);
+  }, [draft]);
+
+  const update = (patch: Partial<ImageAdjustments>) => setDraft({ ...draft, ...patch });
+
+  return (
+    <div className="flex flex-col gap-3">
+      <div className="flex items-center justify-between">
+        <span className="text-xs uppercase tracking-wide text-white/50">Page image</span>
+        <button
+          onClick={() => setDraft(DEFAULT_IMAGE_ADJUSTMENTS)}
+          className="text-xs text-white/50 hover:text-white transition-colors"
+        >
+          Reset
+        </button>
+      </div>
+      <div className="grid grid-cols-4 gap-1 p-1 rounded-lg bg-white/5">
+        {COLOR_MODES.map(({ mode, label }) => (
+          <button
+            key={mode}
+            onClick={() => update({ colorMode: mode })}
+            className={`py-1.5 rounded-md text-xs transition-colors ${draft.colorMode === mode ? 'bg-primary text-white' : 'text-white/60 hover:text-white'}`}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+      {SLIDERS.map(({ key, label, min, max }) => (
+        <label key={key} className="flex flex-col gap-1">
+          <span className="flex justify-between text-white/80">
+            {label}
+            <span className="text-white/50">{draft[key].toFixed(2)}</span>
+          </span>
+          <input
+            type="range"
+            min={min}
+            max={max}
+            step={0.05}
+            value={draft[key]}
+            onChange={(e) => update({ [key]: Number(e.target.value) })}
+            className="accent-primary"
+          />
+        </label>
+      ))}
+      <label className="flex items-center justify-between gap-2 cursor-pointer">
+        <span className="text-white/80">Trim margins</span>
+        <input
+          type="checkbox"
+          checked={draft.trimMargins}
+          onChange={(e) => update({ trimMargins: e.target.checked })}
+          className="rounded border-white/20 bg-white/5 text-primary focus:ring-primary"
+        />
+      </label>
+      <label className="flex items-center justify-between gap-2 cursor-pointer" title="Doubles the resolution of small pages on your device. Slow, but results are kept.">
+        <span className="text-white/80">Upscale low-res pages</span>
+        <input
+          type="checkbox"
+          checked={draft.upscale}
+          onChange={(e) => update({ upscale: e.target.checked })}
+          className="rounded border-white/20 bg-white/5 text-primary focus:ring-primary"
+        />
+      </label>
+    </div>
+  );
+};
@@ -0,0 +1,165 @@
+import React, { useState } from 'react';
+import { ImportPage, ImportReport, isFlaggedPage } from '../utils/importReview';
+
+interface ImportReviewDialogProps {
+  title: string;
+  report: ImportReport; // Updated as pages are checked
+  onConfirm: (order: number[]) => void; // Source indices of the pages to keep, in reading order
+  onCancel: () => void;
+}
+
+const formatSize = (bytes: number) =>
+  bytes < 1024 * 1024 ? `${Math.max(1, Math.round(bytes / 1024))} KB` : `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+
+const pageIssue = (page: ImportPage, report: ImportReport) => {
+  if (page.error) return page.error;
+  if (page.duplicateOf !== undefined) return `Same image as ${report.pages[page.duplicateOf].name}`;
+  if (page.tiny) return 'Much smaller than the other pages; probably a thumbnail';
+  return undefined;
+};
+
+// The import's checks, with the pages in the order they will be stored. Problem pages are left out
+// as they are found, unless the user has already ticked or unticked them.
+export const ImportReviewDialog: React.FC<ImportReviewDialogProps> = ({ title, report, onConfirm, onCancel }) => {
+  const [order, setOrder] = useState(() => report.pages.map(page => page.index));
+  const [choices, setChoices] = useState<Map<number, boolean>>(() => new Map());
+  const [showIgnored, setShowIgnored] = useState(false);
+
+  const isKept = (index: number) => choices.get(index) ?? !isFlaggedPage(report.pages[index]);
+  const checking = report.checked < report.pages.length;
+  const flaggedCount = report.pages.filter(isFlaggedPage).length;
+  const warnedPages = new Set(report.orderWarnings.flatMap(warning => warning.pages));
+  const keptCount = order.filter(isKept).length;
+  const clean = flaggedCount === 0 && report.orderWarnings.length === 0 && report.ignoredNames.length === 0;
+
+  const toggle = (index: number) => {
+    setChoices(new Map(choices).set(index, !isKept(index)));
+  };
+
+  const move = (position: number, offset: number) => {
+    const to = position + offset;
+    if (to < 0 || to >= order.length) return;
+    const next = [...order];
+    [next[position], next[to]] = [next[to], next[position]];
+    setOrder(next);
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/70 backdrop-blur-sm p-4">
+      <div className="w-full max-w-2xl max-h-[90vh] flex flex-col gap-4 p-6 rounded-xl bg-reader-dark border border-white/10 shadow-2xl text-white">
+        <div>
+          <h2 className="text-lg font-semibold">Review import</h2>
+          <p className="text-sm text-white/50 truncate">{title}</p>
+        </div>
+
+        <div className="flex flex-col gap-2 text-sm">
+          {checking && (
+            <div className="flex flex-col gap-1.5 text-white/50">
+              <p>Checking page {report.checked + 1} of {report.pages.length}… You can import now and skip the rest of the check.</p>
+              <div className="h-1.5 rounded-full bg-white/10 overflow-hidden">
+                <div className="h-full bg-primary transition-all" style={{ width: `${(report.checked / report.pages.length) * 100}%` }} />
+              </div>
+            </div>
+          )}
+          {clean && !checking ? (
+            <p className="flex items-center gap-2 text-emerald-400">
+              <span className="material-symbols-outlined text-lg">check_circle</span>
+              All {report.pages.length} pages look fine.
+            </p>
+          ) : (
+            <>
+              {flaggedCount > 0 && (
+                <p className="flex items-center gap-2 text-amber-400">
+                  <span className="material-symbols-outlined text-lg">warning</span>
+                  {flaggedCount === 1 ? '1 page has a problem and was left out' : `${flaggedCount} pages have problems and were left out`}. Tick them to import anyway.
+                </p>
+              )}
+              {report.orderWarnings.map((warning) => (
+                <p key={warning.message} className="flex items-start gap-2 text-white/70">
+                  <span className="material-symbols-outlined text-lg text-amber-400">swap_vert</span>
+                  {warning.message}
+                </p>
+              ))}
+              {report.ignoredNames.length > 0 && (
+                <div className="flex flex-col gap-1 text-white/50">
+                  <button onClick={() => setShowIgnored(!showIgnored)} className="flex items-center gap-2 text-left hover:text-white transition-colors">
+                    <span className="material-symbols-outlined text-lg">{showIgnored ? 'expand_less' : 'expand_more'}</span>
+                    Skipped {report.ignoredNames.length} system or thumbnail {report.ignoredNames.length === 1 ? 'file' : 'files'}
+                  </button>
+                  {showIgnored && (
+                    <ul className="ml-7 max-h-24 overflow-y-auto text-xs">
+                      {report.ignoredNames.map(name => <li key={name} className="truncate">{name}</li>)}
+                    </ul>
+                  )}
+                </div>
+              )}
+            </>
+          )}
+        </div>
+
+        <ul className="flex-1 min-h-0 overflow-y-auto flex flex-col gap-1">
+          {order.map((index, position) => {
+            const page = report.pages[index];
+            const issue = pageIssue(page, report);
+            const kept = isKept(index);
+            return (
+              <li
+                key={index}
+                className={`flex items-center gap-3 px-3 py-2 rounded-lg bg-white/5 text-sm ${kept ? '' : 'opacity-50'}`}
+              >
+                <input
+                  type="checkbox"
+                  checked={kept}
+                  onChange={() => toggle(index)}
+                  className="rounded border-white/20 bg-white/5 text-primary focus:ring-primary"
+                  aria-label={`Import ${page.name}`}
+                />
+                <span className="w-8 text-xs text-white/40">{position + 1}</span>
+                <div className="flex-1 min-w-0">
+                  <p className="truncate">
+                    {warnedPages.has(index) && <span className="material-symbols-outlined text-sm text-amber-400 mr-1 align-middle">swap_vert</span>}
+                    {page.name}
+                  </p>
+                  <p className={`text-xs truncate ${issue ? 'text-amber-400' : 'text-white/40'}`}>
+                    {issue ?? (index < report.checked ? `${page.width} × ${page.height} · ${formatSize(page.size)}` : 'Not checked yet')}
+                  </p>
+                </div>
+                <div className="flex">
+                  <button
+                    onClick={() => move(position, -1)}
+                    disabled={position === 0}
+                    className="size-7 flex items-center justify-center rounded hover:bg-white/10 disabled:opacity-30"
+                    aria-label={`Move ${page.name} up`}
+                  >
+                    <span className="material-symbols-outlined text-lg">keyboard_arrow_up</span>
+                  </button>
+                  <button
+                    onClick={() => move(position, 1)}
+                    disabled={position === order.length - 1}
+                    className="size-7 flex items-center justify-center rounded hover:bg-white/10 disabled:opacity-30"
+                    aria-label={`Move ${page.name} down`}
+                  >
+                    <span className="material-symbols-outlined text-lg">keyboard_arrow_down</span>
+                  </button>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+
+        <div className="flex justify-end gap-2">
+          <button onClick={onCancel} className="px-4 py-2 rounded-lg bg-white/5 hover:bg-white/10 text-sm">
+            Cancel
+          </button>
+          <button
+            onClick={() => onConfirm(order.filter(isKept))}
+            disabled={keptCount === 0}
+            className="px-4 py-2 rounded-lg bg-primary hover:bg-primary/90 disabled:opacity-50 text-sm font-bold"
+          >
+            Import {keptCount} {keptCount === 1 ? 'page' : 'pages'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
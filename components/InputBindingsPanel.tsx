@@ -0,0 +1,146 @@
+import React, { useState, useEffect } from 'react';
+import { InputAction, InputSettings, TapZone, DEFAULT_INPUT_SETTINGS } from '../types';
+import {
+  ACTION_LABELS, INPUT_ACTIONS, bindInput, formatGamepadButton, formatKey, keyFromEvent, unbindInput, watchGamepads,
+} from '../utils/inputBindings';
+
+interface InputBindingsPanelProps {
+  value: InputSettings;
+  onChange: (input: InputSettings) => void;
+}
+
+// The binding waiting for the next key or button press
+interface Capture {
+  action: InputAction;
+  device: 'key' | 'gamepad';
+}
+
+const TAP_ZONES: { zone: TapZone; label: string }[] = [
+  { zone: 'left', label: 'Left' },
+  { zone: 'center', label: 'Center' },
+  { zone: 'right', label: 'Right' },
+];
+
+const TAP_ACTIONS: InputAction[] = ['none', ...INPUT_ACTIONS.map(({ action }) => action)];
+
+export const InputBindingsPanel: React.FC<InputBindingsPanelProps> = ({ value, onChange }) => {
+  const [capture, setCapture] = useState<Capture | null>(null);
+
+  useEffect(() => {
+    if (!capture) return;
+    if (capture.device === 'gamepad') {
+      return watchGamepads((button) => {
+        onChange({ ...value, gamepadButtons: bindInput(value.gamepadButtons, capture.action, button) });
+        setCapture(null);
+      });
+    }
+    // Capture phase, so the key is bound rather than acted on by anything else on the page
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const key = keyFromEvent(e);
+      if (key === undefined) return;
+      e.preventDefault();
+      e.stopPropagation();
+      onChange({ ...value, keys: bindInput(value.keys, capture.action, key) });
+      setCapture(null);
+    };
+    window.addEventListener('keydown', handleKeyDown, true);
+    return () => window.removeEventListener('keydown', handleKeyDown, true);
+  }, [capture, value]);
+
+  const toggleCapture = (action: InputAction, device: Capture['device']) =>
+    setCapture(capture?.action === action && capture.device === device ? null : { action, device });
+
+  const chip = (label: string, onRemove: () => void) => (
+    <span key={label} className="flex items-center gap-1 pl-2 pr-1 py-0.5 rounded-md bg-white/10 text-xs">
+      {label}
+      <button
+        onClick={onRemove}
+        className="size-4 flex items-center justify-center rounded hover:bg-white/10"
+        aria-label={`Unbind ${label}`}
+      >
+        <span className="material-symbols-outlined text-sm">close</span>
+      </button>
+    </span>
+  );
+
+  const addButton = (action: InputAction, device: Capture['device']) => {
+    const waiting = capture?.action === action && capture.device === device;
+    return (
+      <button
+        onClick={() => toggleCapture(action, device)}
+        className={`px-2 py-0.5 rounded-md text-xs transition-colors ${waiting ? 'bg-primary text-white animate-pulse' : 'text-white/40 hover:text-white hover:bg-white/10'}`}
+      >
+        {waiting ? (device === 'key' ? 'Press a key…' : 'Press a button…') : '+'}
+      </button>
+    );
+  };
+
+  return (
+    <section className="flex flex-col gap-3">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h2 className="text-lg font-semibold">Controls</h2>
+          <p className="text-sm text-white/50">Keys, gamepad buttons and taps used in the reader. Left and right follow the screen, so they swap in right-to-left titles.</p>
+        </div>
+        <button
+          onClick={() => { setCapture(null); onChange(DEFAULT_INPUT_SETTINGS); }}
+          className="shrink-0 text-xs text-white/50 hover:text-white transition-colors"
+        >
+          Reset
+        </button>
+      </div>
+
+      <div className="flex flex-col gap-3 p-3 rounded-xl bg-white/5 border border-white/10">
+        <span className="text-sm font-medium">Tap zones</span>
+        <div className="grid grid-cols-3 gap-2">
+          {TAP_ZONES.map(({ zone, label }) => (
+            <label key={zone} className="flex flex-col gap-1">
+              <span className="text-xs text-white/50">{label}</span>
+              <select
+                value={value.tapZones[zone]}
+                onChange={(e) => onChange({ ...value, tapZones: { ...value.tapZones, [zone]: e.target.value as InputAction } })}
+                className="rounded-lg bg-white/5 border border-white/10 text-white text-xs py-1.5 focus:ring-primary focus:border-primary"
+              >
+                {TAP_ACTIONS.map((action) => (
+                  <option key={action} value={action} className="bg-reader-dark">{ACTION_LABELS[action]}</option>
+                ))}
+              </select>
+            </label>
+          ))}
+        </div>
+        <label className="flex items-center gap-3 text-sm">
+          <input
+            type="checkbox"
+            checked={value.swipe}
+            onChange={(e) => onChange({ ...value, swipe: e.target.checked })}
+            className="rounded border-white/20 bg-white/5 text-primary focus:ring-primary"
+          />
+          Swipe sideways to turn pages
+        </label>
+      </div>
+
+      <div className="flex flex-col divide-y divide-white/5 rounded-xl bg-white/5 border border-white/10">
+        <div className="grid grid-cols-[1fr_1fr_1fr] gap-3 px-3 py-2 text-xs uppercase tracking-wide text-white/40">
+          <span>Action</span>
+          <span>Keys</span>
+          <span>Gamepad</span>
+        </div>
+        {INPUT_ACTIONS.map(({ action, label }) => (
+          <div key={action} className="grid grid-cols-[1fr_1fr_1fr] items-center gap-3 px-3 py-2">
+            <span className="text-sm">{label}</span>
+            <div className="flex flex-wrap items-center gap-1">
+              {(value.keys[action] ?? []).map(key =>
+                chip(formatKey(key), () => onChange({ ...value, keys: unbindInput(value.keys, action, key) })))}
+              {addButton(action, 'key')}
+            </div>
+            <div className="flex flex-wrap items-center gap-1">
+              {(value.gamepadButtons[action] ?? []).map(button =>
+                chip(formatGamepadButton(button), () => onChange({ ...value, gamepadButtons: unbindInput(value.gamepadButtons, action, button) })))}
+              {addButton(action, 'gamepad')}
+            </div>
+          </div>
+        ))}
+      </div>
+    </section>
+  );
+};
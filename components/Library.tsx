@@ -1,19 +1,114 @@
-import React, { useRef } from 'react';
-import { LibraryItem } from '../types';
+import React, { useRef, useState, useMemo } from 'react';
+import { LibraryCollection, LibraryItem, PageOcr, LibrarySort, ReadingStatus, StorageUsage } from '../types';
+import { MangaCard } from './MangaCard';
+import { SeriesCard } from './SeriesCard';
+import { SeriesDetail } from './SeriesDetail';
+import { SearchResults } from './SearchResults';
+import { TitleDetailsDialog } from './TitleDetailsDialog';
+import { CoverPicker } from './CoverPicker';
+import { TextExportDialog } from './TextExportDialog';
+import { SearchHit } from '../utils/search';
+import { groupLibrary } from '../utils/series';
+import { LIBRARY_SORTS, LibraryFilter, collectTags, filterLibrary, sortLibrary } from '../utils/libraryView';
+import { LibraryDetails } from '../utils/storage';
+import { OcrProvider } from '../utils/ocrProviders';
 
 interface LibraryProps {
   items: LibraryItem[];
+  storageUsage: StorageUsage | null;
+  importProgress: Record<string, number>;
   onSelect: (id: string) => void;
-  onUpload: (file: File) => void;
+  onUpload: (files: File[]) => void;
+  onDelete: (id: string) => void;
+  onOpenSettings: () => void;
+  onOpenDeck: () => void;
+  onOpenSearchHit: (hit: SearchHit) => void;
+  sort: LibrarySort;
+  onSortChange: (sort: LibrarySort) => void;
+  collections: LibraryCollection[];
+  onCollectionsChange: (collections: LibraryCollection[]) => void;
+  onSaveDetails: (id: string, details: LibraryDetails) => void;
+  onSetCover: (id: string, page: number) => void;
+  ocrProvider: OcrProvider; // Recognizes pages a text export still needs
+  onPageAnalyzed: (record: PageOcr) => void;
 }
 
-export const Library: React.FC<LibraryProps> = ({ items, onSelect, onUpload }) => {
+const STATUS_FILTERS: { status?: ReadingStatus; label: string }[] = [
+  { label: 'All' },
+  { status: 'unread', label: 'Unread' },
+  { status: 'reading', label: 'Reading' },
+  { status: 'finished', label: 'Finished' },
+];
+
+const formatBytes = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  const units = ['KB', 'MB', 'GB', 'TB'];
+  let value = bytes / 1024;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${value.toFixed(value < 10 ? 1 : 0)} ${units[unit]}`;
+};
+
+export const Library: React.FC<LibraryProps> = ({ items, storageUsage, importProgress, onSelect, onUpload, onDelete, onOpenSettings, onOpenDeck, onOpenSearchHit, sort, onSortChange, collections, onCollectionsChange, onSaveDetails, onSetCover, ocrProvider, onPageAnalyzed }) => {
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const folderInputRef = useRef<HTMLInputElement>(null);
+  const [openSeriesKey, setOpenSeriesKey] = useState<string | null>(null);
+  const [showSearch, setShowSearch] = useState(false);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [filter, setFilter] = useState<LibraryFilter>({ query: '' });
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [coverPickerId, setCoverPickerId] = useState<string | null>(null);
+  const [exportingId, setExportingId] = useState<string | null>(null);
+
+  const tags = useMemo(() => collectTags(items), [items]);
+  const entries = useMemo(() => groupLibrary(sortLibrary(filterLibrary(items, filter), sort)), [items, filter, sort]);
+  // Looked up in the whole library so an open series survives a filter change
+  const openSeries = useMemo(() => groupLibrary(items), [items])
+    .find(entry => entry.kind === 'series' && entry.key === openSeriesKey);
+  const activeCollection = collections.find(collection => collection.id === filter.collectionId);
+  const editingItem = items.find(item => item.id === editingId);
+  const coverPickerItem = items.find(item => item.id === coverPickerId);
+  const exportingItem = items.find(item => item.id === exportingId);
+
+  // Exports read every page from storage, which an import in progress hasn't finished writing
+  const openTextExport = (id: string) => {
+    if (importProgress[id] !== undefined) {
+      alert("This manga is still being imported. Please wait until it finishes.");
+      return;
+    }
+    setExportingId(id);
+  };
+
+  const createCollection = () => {
+    const name = prompt('Name of the new collection')?.trim();
+    if (!name) return;
+    const collection = { id: crypto.randomUUID(), name };
+    onCollectionsChange([...collections, collection]);
+    setFilter({ ...filter, collectionId: collection.id });
+  };
+
+  const renameCollection = (collection: LibraryCollection) => {
+    const name = prompt('Rename collection', collection.name)?.trim();
+    if (!name) return;
+    onCollectionsChange(collections.map(other => other.id === collection.id ? { ...other, name } : other));
+  };
+
+  // Titles keep the stale id until they are next edited; it no longer matches any shelf
+  const deleteCollection = (collection: LibraryCollection) => {
+    if (!confirm(`Delete the collection "${collection.name}"? The titles in it stay in your library.`)) return;
+    onCollectionsChange(collections.filter(other => other.id !== collection.id));
+    setFilter({ ...filter, collectionId: undefined });
+  };
 
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    if (e.target.files && e.target.files[0]) {
-      onUpload(e.target.files[0]);
+    if (e.target.files && e.target.files.length > 0) {
+      onUpload(Array.from(e.target.files));
     }
+    // Allow picking the same file again
+    e.target.value = '';
   };
 
   return (
@@ -23,60 +118,263 @@ export const Library: React.FC<LibraryProps> = ({ items, onSelect, onUpload }) =
         <h1 className="text-3xl font-bold tracking-tight bg-gradient-to-r from-[#a78bfa] to-[#4b2bee] bg-clip-text text-transparent">
           Library
         </h1>
+        <div className="flex items-center gap-4">
+          {storageUsage && (
+            <div className="flex items-center gap-2 text-xs text-white/50" title={storageUsage.persisted ? 'Storage is persistent' : 'Storage may be cleared by the browser under pressure'}>
+              <span className="material-symbols-outlined text-base">{storageUsage.persisted ? 'lock' : 'storage'}</span>
+              <span>
+                {formatBytes(storageUsage.libraryBytes)}
+                {storageUsage.quota ? ` of ${formatBytes(storageUsage.quota)} available` : ' used'}
+              </span>
+            </div>
+          )}
+          <button
+            onClick={() => { setShowSearch(!showSearch); setSearchQuery(''); }}
+            className={`size-10 flex items-center justify-center rounded-lg hover:bg-white/10 transition-colors text-white ${showSearch ? 'bg-white/10' : 'bg-white/5'}`}
+            aria-label="Search text"
+          >
+            <span className="material-symbols-outlined">search</span>
+          </button>
+          <button
+            onClick={onOpenDeck}
+            className="size-10 flex items-center justify-center rounded-lg bg-white/5 hover:bg-white/10 transition-colors text-white"
+            aria-label="Study deck"
+          >
+            <span className="material-symbols-outlined">school</span>
+          </button>
+          <button
+            onClick={onOpenSettings}
+            className="size-10 flex items-center justify-center rounded-lg bg-white/5 hover:bg-white/10 transition-colors text-white"
+            aria-label="Settings"
+          >
+            <span className="material-symbols-outlined">settings</span>
+          </button>
+        </div>
       </header>
 
+      {showSearch && (
+        <div className="px-4 pt-4">
+          <div className="flex items-center gap-2 max-w-3xl px-4 py-2 rounded-xl bg-white/5 border border-white/10 focus-within:border-primary">
+            <span className="material-symbols-outlined text-white/50">search</span>
+            <input
+              type="text"
+              autoFocus
+              value={searchQuery}
+              onChange={(e) => setSearchQuery(e.target.value)}
+              placeholder="Search text in your manga…"
+              className="flex-1 bg-transparent border-none p-0 text-white placeholder:text-white/40 focus:ring-0"
+            />
+          </div>
+        </div>
+      )}
+
+      {!showSearch && !openSeries && items.length > 0 && (
+        <div className="flex flex-col gap-3 px-4 pt-4">
+          <div className="flex flex-wrap items-center gap-3">
+            <div className="flex flex-1 min-w-[12rem] max-w-md items-center gap-2 px-3 py-1.5 rounded-lg bg-white/5 border border-white/10 focus-within:border-primary">
+              <span className="material-symbols-outlined text-lg text-white/50">filter_list</span>
+              <input
+                type="text"
+                value={filter.query}
+                onChange={(e) => setFilter({ ...filter, query: e.target.value })}
+                placeholder="Filter by title…"
+                className="flex-1 bg-transparent border-none p-0 text-sm text-white placeholder:text-white/40 focus:ring-0"
+              />
+            </div>
+            <div className="flex rounded-lg bg-white/5 border border-white/10 p-0.5">
+              {STATUS_FILTERS.map(({ status, label }) => (
+                <button
+                  key={label}
+                  onClick={() => setFilter({ ...filter, status })}
+                  className={`px-3 py-1 rounded-md text-xs font-medium transition-colors ${filter.status === status ? 'bg-primary text-white' : 'text-white/60 hover:text-white'}`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+            {tags.length > 0 && (
+              <select
+                value={filter.tag ?? ''}
+                onChange={(e) => setFilter({ ...filter, tag: e.target.value || undefined })}
+                className="rounded-lg bg-white/5 border border-white/10 text-white text-sm py-1.5 focus:ring-primary focus:border-primary"
+                aria-label="Filter by tag"
+              >
+                <option value="" className="bg-reader-dark">All tags</option>
+                {tags.map(tag => <option key={tag} value={tag} className="bg-reader-dark">{tag}</option>)}
+              </select>
+            )}
+            <select
+              value={sort}
+              onChange={(e) => onSortChange(e.target.value as LibrarySort)}
+              className="ml-auto rounded-lg bg-white/5 border border-white/10 text-white text-sm py-1.5 focus:ring-primary focus:border-primary"
+              aria-label="Sort by"
+            >
+              {LIBRARY_SORTS.map(({ id, label }) => <option key={id} value={id} className="bg-reader-dark">{label}</option>)}
+            </select>
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            <span className="material-symbols-outlined text-lg text-white/40">shelves</span>
+            {[{ id: undefined, name: 'Everything' }, ...collections].map(({ id, name }) => (
+              <button
+                key={id ?? ''}
+                onClick={() => setFilter({ ...filter, collectionId: id })}
+                className={`px-3 py-1 rounded-full text-xs font-medium ring-1 transition-colors ${filter.collectionId === id ? 'bg-primary ring-primary text-white' : 'ring-white/10 text-white/60 hover:text-white'}`}
+              >
+                {name}
+              </button>
+            ))}
+            <button
+              onClick={createCollection}
+              className="flex items-center gap-1 px-3 py-1 rounded-full text-xs font-medium text-white/50 hover:text-white border border-dashed border-white/20"
+            >
+              <span className="material-symbols-outlined text-sm">add</span>
+              New collection
+            </button>
+            {activeCollection && (
+              <>
+                <button
+                  onClick={() => renameCollection(activeCollection)}
+                  className="size-7 flex items-center justify-center rounded hover:bg-white/10 text-white/50 hover:text-white"
+                  aria-label={`Rename ${activeCollection.name}`}
+                >
+                  <span className="material-symbols-outlined text-base">edit</span>
+                </button>
+                <button
+                  onClick={() => deleteCollection(activeCollection)}
+                  className="size-7 flex items-center justify-center rounded hover:bg-white/10 text-white/50 hover:text-red-400"
+                  aria-label={`Delete ${activeCollection.name}`}
+                >
+                  <span className="material-symbols-outlined text-base">delete</span>
+                </button>
+              </>
+            )}
+          </div>
+        </div>
+      )}
+
       {/* Manga Grid Section */}
       <main className="px-4 pb-24 pt-4">
-        {items.length === 0 ? (
+        {showSearch && searchQuery.trim() ? (
+          <SearchResults query={searchQuery.trim()} items={items} onOpenHit={onOpenSearchHit} />
+        ) : openSeries?.kind === 'series' ? (
+          <SeriesDetail
+            name={openSeries.name}
+            items={openSeries.items}
+            importProgress={importProgress}
+            onBack={() => setOpenSeriesKey(null)}
+            onSelect={onSelect}
+            onDelete={onDelete}
+            onEdit={setEditingId}
+            onChooseCover={setCoverPickerId}
+            onExportText={openTextExport}
+          />
+        ) : items.length === 0 ? (
           <div className="flex flex-col items-center justify-center h-[60vh] text-center text-white/50">
              <span className="material-symbols-outlined text-7xl mb-6 text-white/10">library_books</span>
              <h2 className="text-xl font-medium text-white mb-2">Your library is empty</h2>
-             <p className="text-sm max-w-md mx-auto mb-8">Upload a local .cbz or .zip file to start reading your manga collection.</p>
-             <button
-                onClick={() => fileInputRef.current?.click()}
-                className="px-8 py-3 bg-primary hover:bg-primary/90 text-white rounded-full font-medium transition-all shadow-[0_0_20px_rgba(75,43,238,0.3)] hover:shadow-[0_0_25px_rgba(75,43,238,0.5)] active:scale-95"
-             >
-                Upload Manga
-             </button>
+             <p className="text-sm max-w-md mx-auto mb-8">Upload a local .cbz, .cbr, .cb7, .pdf or .epub file, or a folder of images, to start reading your manga collection.</p>
+             <div className="flex flex-wrap items-center justify-center gap-3">
+               <button
+                  onClick={() => fileInputRef.current?.click()}
+                  className="px-8 py-3 bg-primary hover:bg-primary/90 text-white rounded-full font-medium transition-all shadow-[0_0_20px_rgba(75,43,238,0.3)] hover:shadow-[0_0_25px_rgba(75,43,238,0.5)] active:scale-95"
+               >
+                  Upload Manga
+               </button>
+               <button
+                  onClick={() => folderInputRef.current?.click()}
+                  className="px-8 py-3 bg-white/5 hover:bg-white/10 text-white rounded-full font-medium transition-all ring-1 ring-white/10 active:scale-95"
+               >
+                  Import Folder
+               </button>
+             </div>
+          </div>
+        ) : entries.length === 0 ? (
+          <div className="flex flex-col items-center justify-center h-[40vh] text-center text-white/50">
+            <span className="material-symbols-outlined text-5xl mb-4 text-white/10">filter_alt_off</span>
+            <p className="text-sm">No titles match these filters.</p>
           </div>
         ) : (
           <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-5 gap-4">
-            {items.map((item) => (
-              <div 
-                key={item.id}
-                onClick={() => onSelect(item.id)}
-                className="group relative aspect-[2/3] overflow-hidden rounded-lg bg-primary/10 transition-all duration-300 hover:scale-[1.02] active:scale-[0.98] cursor-pointer ring-1 ring-white/10 hover:ring-primary/50"
-              >
-                <div 
-                  className="h-full w-full bg-cover bg-center transition-transform duration-500 group-hover:scale-110" 
-                  style={{ backgroundImage: `url('${item.coverUrl}')` }}
-                >
-                  <div className="absolute inset-0 bg-gradient-to-t from-black/80 via-transparent to-transparent opacity-0 group-hover:opacity-100 transition-opacity duration-300 flex items-end p-4">
-                      <p className="text-sm font-medium text-white line-clamp-2">{item.title}</p>
-                  </div>
-                </div>
-              </div>
+            {entries.map((entry) => entry.kind === 'series' ? (
+              <SeriesCard
+                key={entry.key}
+                name={entry.name}
+                items={entry.items}
+                onOpen={() => setOpenSeriesKey(entry.key)}
+              />
+            ) : (
+              <MangaCard
+                key={entry.item.id}
+                item={entry.item}
+                importProgress={importProgress[entry.item.id]}
+                onSelect={onSelect}
+                onDelete={onDelete}
+                onEdit={setEditingId}
+                onChooseCover={setCoverPickerId}
+                onExportText={openTextExport}
+              />
             ))}
           </div>
         )}
       </main>
 
+      {editingItem && (
+        <TitleDetailsDialog
+          item={editingItem}
+          collections={collections}
+          onSave={(details) => { onSaveDetails(editingItem.id, details); setEditingId(null); }}
+          onClose={() => setEditingId(null)}
+        />
+      )}
+      {coverPickerItem && (
+        <CoverPicker
+          item={coverPickerItem}
+          onChoose={(page) => { onSetCover(coverPickerItem.id, page); setCoverPickerId(null); }}
+          onClose={() => setCoverPickerId(null)}
+        />
+      )}
+      {exportingItem && (
+        <TextExportDialog
+          item={exportingItem}
+          ocrProvider={ocrProvider}
+          onPageAnalyzed={onPageAnalyzed}
+          onClose={() => setExportingId(null)}
+        />
+      )}
+
       {/* Upload Button (FAB) - Only show if items exist */}
       <input 
         type="file" 
         ref={fileInputRef} 
         onChange={handleFileChange} 
-        accept=".zip,.cbz,.rar" 
+        accept=".zip,.cbz,.rar,.cbr,.7z,.cb7,.pdf,.epub,image/*" 
+        multiple
         className="hidden" 
       />
+      <input
+        type="file"
+        ref={folderInputRef}
+        onChange={handleFileChange}
+        webkitdirectory=""
+        className="hidden"
+      />
       {items.length > 0 && (
-        <button 
-          onClick={() => fileInputRef.current?.click()}
-          className="fixed bottom-8 right-8 z-50 flex h-14 w-14 items-center justify-center rounded-full bg-primary text-white shadow-[0_0_15px_rgba(75,43,238,0.4)] transition-transform hover:scale-105 active:scale-95 hover:bg-primary/90"
-          aria-label="Upload Manga"
-        >
-          <span className="material-symbols-outlined text-3xl">add</span>
-        </button>
+        <>
+          <button
+            onClick={() => folderInputRef.current?.click()}
+            className="fixed bottom-8 right-24 z-50 flex h-14 w-14 items-center justify-center rounded-full bg-reader-dark text-white ring-1 ring-white/10 transition-transform hover:scale-105 active:scale-95 hover:bg-white/10"
+            aria-label="Import Folder"
+          >
+            <span className="material-symbols-outlined text-2xl">create_new_folder</span>
+          </button>
+          <button 
+            onClick={() => fileInputRef.current?.click()}
+            className="fixed bottom-8 right-8 z-50 flex h-14 w-14 items-center justify-center rounded-full bg-primary text-white shadow-[0_0_15px_rgba(75,43,238,0.4)] transition-transform hover:scale-105 active:scale-95 hover:bg-primary/90"
+            aria-label="Upload Manga"
+          >
+            <span className="material-symbols-outlined text-3xl">add</span>
+          </button>
+        </>
       )}
     </div>
   );
@@ -0,0 +1,105 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { LibraryItem, ReadingStatus } from '../types';
+import { getReadingStatus, getProgressPercent } from '../utils/progress';
+
+interface MangaCardProps {
+  item: LibraryItem;
+  label?: string; // Defaults to the title
+  importProgress?: number; // 0-1 while pages are still being stored
+  onSelect: (id: string) => void;
+  onDelete: (id: string) => void;
+  onEdit: (id: string) => void;
+  onChooseCover: (id: string) => void;
+  onExportText: (id: string) => void;
+}
+
+const STATUS_BADGES: Record<ReadingStatus, { label: string; className: string }> = {
+  unread: { label: 'New', className: 'bg-primary text-white' },
+  reading: { label: 'Reading', className: 'bg-amber-500 text-black' },
+  finished: { label: 'Finished', className: 'bg-emerald-500 text-black' },
+};
+
+export const MangaCard: React.FC<MangaCardProps> = ({ item, label, importProgress, onSelect, onDelete, onEdit, onChooseCover, onExportText }) => {
+  const status = getReadingStatus(item);
+  const progress = getProgressPercent(item);
+  const [showMenu, setShowMenu] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  // Close the menu on any press outside it
+  useEffect(() => {
+    if (!showMenu) return;
+    const handlePointerDown = (e: PointerEvent) => {
+      if (!menuRef.current?.contains(e.target as Node)) setShowMenu(false);
+    };
+    window.addEventListener('pointerdown', handlePointerDown);
+    return () => window.removeEventListener('pointerdown', handlePointerDown);
+  }, [showMenu]);
+
+  const menuAction = (action: (id: string) => void) => (e: React.MouseEvent) => {
+    e.stopPropagation();
+    setShowMenu(false);
+    action(item.id);
+  };
+
+  return (
+    <div 
+      onClick={() => onSelect(item.id)}
+      onContextMenu={(e) => { e.preventDefault(); setShowMenu(true); }}
+      className="group relative aspect-[2/3] overflow-hidden rounded-lg bg-primary/10 transition-all duration-300 hover:scale-[1.02] active:scale-[0.98] cursor-pointer ring-1 ring-white/10 hover:ring-primary/50"
+    >
+      <div 
+        className="h-full w-full bg-cover bg-center transition-transform duration-500 group-hover:scale-110" 
+        style={{ backgroundImage: `url('${item.coverUrl}')` }}
+      >
+        <div className="absolute inset-0 bg-gradient-to-t from-black/80 via-transparent to-transparent opacity-0 group-hover:opacity-100 transition-opacity duration-300 flex items-end p-4">
+            <p className="text-sm font-medium text-white line-clamp-2">{label ?? item.title}</p>
+        </div>
+      </div>
+      {importProgress !== undefined && (
+        <div className="absolute inset-x-2 bottom-3 flex flex-col gap-1 rounded-md bg-black/70 px-2 py-1.5 backdrop-blur-sm">
+          <span className="text-[10px] font-medium text-white/80">Importing {Math.round(importProgress * 100)}%</span>
+          <div className="h-1 rounded-full bg-white/10">
+            <div className="h-full rounded-full bg-primary transition-all" style={{ width: `${importProgress * 100}%` }} />
+          </div>
+        </div>
+      )}
+      <div ref={menuRef} onClick={(e) => e.stopPropagation()} className="absolute top-2 right-2 flex flex-col items-end gap-1">
+        <button
+          onClick={() => setShowMenu(!showMenu)}
+          className={`size-8 flex items-center justify-center rounded-full bg-black/60 text-white/80 transition-opacity hover:bg-black/80 hover:text-white ${showMenu ? 'opacity-100' : 'opacity-0 group-hover:opacity-100'}`}
+          aria-label={`Options for ${item.title}`}
+        >
+          <span className="material-symbols-outlined text-lg">more_vert</span>
+        </button>
+        {showMenu && (
+          <div className="w-40 py-1 rounded-lg bg-reader-dark/95 backdrop-blur-md border border-white/10 shadow-2xl text-sm text-white">
+            <button onClick={menuAction(onEdit)} className="w-full flex items-center gap-2 px-3 py-2 hover:bg-white/10">
+              <span className="material-symbols-outlined text-base">edit</span>
+              Edit details
+            </button>
+            <button onClick={menuAction(onChooseCover)} className="w-full flex items-center gap-2 px-3 py-2 hover:bg-white/10">
+              <span className="material-symbols-outlined text-base">image</span>
+              Change cover
+            </button>
+            <button onClick={menuAction(onExportText)} className="w-full flex items-center gap-2 px-3 py-2 hover:bg-white/10">
+              <span className="material-symbols-outlined text-base">description</span>
+              Export text
+            </button>
+            <button onClick={menuAction(onDelete)} className="w-full flex items-center gap-2 px-3 py-2 text-red-400 hover:bg-red-500/20">
+              <span className="material-symbols-outlined text-base">delete</span>
+              Delete
+            </button>
+          </div>
+        )}
+      </div>
+      <span className={`absolute top-2 left-2 px-2 py-0.5 rounded-full text-[10px] font-semibold uppercase tracking-wide ${STATUS_BADGES[status].className}`}>
+        {STATUS_BADGES[status].label}
+      </span>
+      {status !== 'unread' && (
+        <div className="absolute bottom-0 left-0 right-0 h-1 bg-white/10">
+          <div className="h-full bg-primary" style={{ width: `${progress}%` }} />
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,27 @@
+import React from 'react';
+import { ModelStatus } from '../utils/modelCache';
+
+interface ModelStatusBadgeProps {
+  status: ModelStatus;
+  progress?: number | null; // 0-1 while loading, when known
+}
+
+const LABELS: Record<ModelStatus, { icon: string; label: string; className: string }> = {
+  'not-downloaded': { icon: 'cloud_download', label: 'Not downloaded', className: 'text-white/50' },
+  cached: { icon: 'offline_pin', label: 'Saved for offline use', className: 'text-emerald-400' },
+  loading: { icon: '', label: 'Loading model…', className: 'text-white' },
+  ready: { icon: 'check_circle', label: 'Ready', className: 'text-emerald-400' },
+  error: { icon: 'error', label: 'Failed to load', className: 'text-red-400' },
+};
+
+export const ModelStatusBadge: React.FC<ModelStatusBadgeProps> = ({ status, progress }) => {
+  const { icon, label, className } = LABELS[status];
+  return (
+    <span className={`inline-flex items-center gap-1.5 text-xs ${className}`}>
+      {status === 'loading'
+        ? <span className="animate-spin size-3 border-2 border-white/30 border-t-white rounded-full" />
+        : <span className="material-symbols-outlined text-base">{icon}</span>}
+      {status === 'loading' && typeof progress === 'number' ? `${label} ${Math.round(progress * 100)}%` : label}
+    </span>
+  );
+};
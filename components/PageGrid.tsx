@@ -0,0 +1,78 @@
+import React, { useEffect, useRef } from 'react';
+import { ReadingDirection } from '../types';
+
+interface PageGridProps {
+  pageCount: number;
+  thumbnails: Record<number, string>; // Object URLs, by page; pages without one show a placeholder
+  currentIndex: number;
+  direction: ReadingDirection;
+  bookmarkedPages: Set<number>;
+  analyzedPages: Set<number>; // Pages with stored OCR
+  onSelect: (page: number) => void;
+  onClose: () => void;
+}
+
+// Every page of the title at a glance, laid out in reading order
+export const PageGrid: React.FC<PageGridProps> = ({
+  pageCount, thumbnails, currentIndex, direction, bookmarkedPages, analyzedPages, onSelect, onClose,
+}) => {
+  const currentRef = useRef<HTMLButtonElement>(null);
+
+  useEffect(() => {
+    currentRef.current?.scrollIntoView({ block: 'center' });
+  }, []);
+
+  return (
+    <div className="fixed inset-0 z-50 flex flex-col bg-reader-dark/95 backdrop-blur-xl text-white">
+      <header className="flex items-center justify-between gap-4 px-6 py-4 border-b border-white/10">
+        <h2 className="text-lg font-semibold">All pages</h2>
+        <div className="flex items-center gap-4 text-xs text-white/50">
+          <span className="flex items-center gap-1">
+            <span className="material-symbols-outlined text-base material-symbols-filled text-primary">bookmark</span>
+            Bookmarked
+          </span>
+          <span className="flex items-center gap-1">
+            <span className="material-symbols-outlined text-base text-emerald-400">text_fields</span>
+            Text recognized
+          </span>
+          <button
+            onClick={onClose}
+            className="size-10 flex items-center justify-center rounded-lg hover:bg-white/10 transition-colors text-white"
+            aria-label="Close page overview"
+          >
+            <span className="material-symbols-outlined">close</span>
+          </button>
+        </div>
+      </header>
+      <div className="flex-1 overflow-y-auto p-6">
+        <div dir={direction} className="grid grid-cols-[repeat(auto-fill,minmax(7rem,1fr))] gap-4">
+          {Array.from({ length: pageCount }, (_, page) => (
+            <button
+              key={page}
+              ref={page === currentIndex ? currentRef : undefined}
+              onClick={() => onSelect(page)}
+              className={`group flex flex-col items-center gap-1 p-1 rounded-lg transition-colors hover:bg-white/10 ${page === currentIndex ? 'bg-primary/20 ring-2 ring-primary' : ''}`}
+            >
+              <div className="relative w-full aspect-[2/3] flex items-center justify-center overflow-hidden rounded bg-black/40">
+                {thumbnails[page] ? (
+                  <img src={thumbnails[page]} alt={`Page ${page + 1}`} loading="lazy" className="max-h-full max-w-full object-contain" />
+                ) : (
+                  <span className="size-4 border-2 border-white/20 border-t-white/60 rounded-full animate-spin" />
+                )}
+                <div className="absolute top-1 right-1 flex flex-col gap-1">
+                  {bookmarkedPages.has(page) && (
+                    <span className="material-symbols-outlined text-base material-symbols-filled text-primary drop-shadow">bookmark</span>
+                  )}
+                  {analyzedPages.has(page) && (
+                    <span className="material-symbols-outlined text-base text-emerald-400 drop-shadow">text_fields</span>
+                  )}
+                </div>
+              </div>
+              <span className="text-xs text-white/50 group-hover:text-white">{page + 1}</span>
+            </button>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
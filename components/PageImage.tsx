@@ -0,0 +1,52 @@
+import React, { useState, useEffect } from 'react';
+import { PageProvider } from '../types';
+
+interface PageImageProps {
+  pages: PageProvider;
+  index: number;
+  className?: string;
+  imgRef?: (el: HTMLImageElement | null) => void;
+  onLoad?: (img: HTMLImageElement) => void;
+}
+
+// An <img> whose source is fetched from the page provider, with a spinner while the page is extracted
+export const PageImage: React.FC<PageImageProps> = ({ pages, index, className, imgRef, onLoad }) => {
+  const [url, setUrl] = useState<string | undefined>(() => pages.getCachedUrl(index));
+  const [failed, setFailed] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    setUrl(pages.getCachedUrl(index));
+    setFailed(false);
+    pages.getPageUrl(index)
+      .then((pageUrl) => { if (!cancelled) setUrl(pageUrl); })
+      .catch((error) => {
+        console.error(`Failed to load page ${index + 1}`, error);
+        if (!cancelled) setFailed(true);
+      });
+    return () => { cancelled = true; };
+  }, [pages, index]);
+
+  if (!url) {
+    return (
+      <div className="flex h-full w-full items-center justify-center">
+        {failed ? (
+          <span className="material-symbols-outlined text-4xl text-white/30">broken_image</span>
+        ) : (
+          <div className="h-8 w-8 animate-spin rounded-full border-2 border-white/30 border-t-transparent" />
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <img
+      ref={imgRef}
+      src={url}
+      onLoad={(e) => onLoad?.(e.currentTarget)}
+      className={className}
+      alt={`Page ${index + 1}`}
+      decoding="async"
+    />
+  );
+};
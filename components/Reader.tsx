@@ -1,16 +1,99 @@
-import React, { useState, useEffect, useCallback, useRef } from 'react';
-import { MangaItem } from '../types';
-import { recognizeTextFromImage, preloadModel } from '../utils/ocr';
+import React, { useState, useEffect, useCallback, useRef, useMemo } from 'react';
+import { Bookmark, DeckCard, InputAction, InputSettings, MangaItem, OCRCache, OcrModelId, PageOcr, ReaderSettings, SpeechBubble, TranslationCache, DEFAULT_IMAGE_ADJUSTMENTS, DEFAULT_READER_SETTINGS } from '../types';
+import {
+  OcrCancelledError, OcrJob, PRIORITY_BACKGROUND, PRIORITY_SELECTION, PRIORITY_VISIBLE,
+  OCR_MODELS, resolveOcrModel,
+} from '../utils/ocr';
+import { OcrProvider } from '../utils/ocrProviders';
+import { translateTexts } from '../utils/translation';
+import { createProcessedPages, fromPageRegion, isIdentity, toPageRegion } from '../utils/imageProcessing';
+import { ModelStatus, getModelStatus } from '../utils/modelCache';
+import { VerticalPageStrip } from './VerticalPageStrip';
+import { ReaderPage } from './ReaderPage';
+import { BubbleOverlay } from './BubbleOverlay';
+import { ImageAdjustmentsPanel } from './ImageAdjustmentsPanel';
+import { ModelStatusBadge } from './ModelStatusBadge';
+import { ZoomFocus, ZoomPanLayer } from './ZoomPanLayer';
+import { Panel, detectPanels } from '../utils/panels';
+import { buildSpreads, findSpreadIndex, getImageSize, isWidePage } from '../utils/spreads';
+import { findChapterIndex } from '../utils/chapters';
+import { findBoundAction, keyFromEvent, tapZoneAt, watchGamepads } from '../utils/inputBindings';
+import { watchThumbnails } from '../utils/thumbnails';
+import { PageGrid } from './PageGrid';
 
 interface ReaderProps {
   manga: MangaItem;
   onClose: () => void;
+  onProgress: (page: number) => void;
+  onBookmarksChange: (bookmarks: Bookmark[]) => void;
+  onSettingsChange: (settings: ReaderSettings) => void;
+  ocrProvider: OcrProvider; // The user's provider chain
+  translationLanguage: string;
+  onPageAnalyzed: (record: PageOcr) => void;
+  highlight?: { page: number; box: SpeechBubble['box_2d'] }; // A search hit to open on
+  onSaveToDeck: (card: DeckCard) => void;
+  input: InputSettings; // Key, gamepad and touch bindings
 }
 
-export const Reader: React.FC<ReaderProps> = ({ manga, onClose }) => {
-  const [currentIndex, setCurrentIndex] = useState(0);
+// What the last OCR selection read, shown next to where it was drawn
+interface SelectionResult {
+  rect: { x: number; y: number; w: number; h: number };
+  text: string;
+  translation?: string;
+  status: 'translating' | 'complete' | 'error';
+  page: number;
+  image: Blob; // The cropped selection, kept for deck cards
+  saved: boolean;
+}
+
+// How many pages past the current one are analyzed ahead of time in bubble mode
+const ANALYZE_AHEAD = 2;
+
+export const Reader: React.FC<ReaderProps> = ({ manga, onClose, onProgress, onBookmarksChange, onSettingsChange, ocrProvider, translationLanguage, onPageAnalyzed, highlight, onSaveToDeck, input }) => {
+  // Resume where the reader left off (or at a search hit), clamped in case the page count changed
+  const [currentIndex, setCurrentIndex] = useState(() =>
+    Math.min(highlight?.page ?? manga.lastReadPage ?? 0, Math.max(manga.pageCount - 1, 0))
+  );
+  const [activeHighlight, setActiveHighlight] = useState(highlight);
   const [showControls, setShowControls] = useState(true);
   const [isFullScreen, setIsFullScreen] = useState(false);
+
+  const [bookmarks, setBookmarks] = useState<Bookmark[]>(manga.bookmarks ?? []);
+  const [showBookmarks, setShowBookmarks] = useState(false);
+  const [showToc, setShowToc] = useState(false);
+  const [showGrid, setShowGrid] = useState(false);
+  const [bookmarkName, setBookmarkName] = useState('');
+
+  // Saved settings win; otherwise the archive's own metadata picks the direction
+  const [settings, setSettings] = useState<ReaderSettings>(() => ({
+    ...DEFAULT_READER_SETTINGS,
+    direction: manga.metadata?.readingDirection ?? DEFAULT_READER_SETTINGS.direction,
+    ...manga.readerSettings,
+  }));
+  const [showSettings, setShowSettings] = useState(false);
+  const [widePages, setWidePages] = useState<Set<number>>(new Set());
+  // Rendered page images by page index, used to crop OCR selections
+  const pageRefs = useRef<(HTMLImageElement | null)[]>([]);
+  const registerPage = useCallback((index: number, el: HTMLImageElement | null) => {
+    pageRefs.current[index] = el;
+  }, []);
+
+  const [showBubbles, setShowBubbles] = useState(false);
+  const [translatedMode, setTranslatedMode] = useState(false);
+  const analyzing = showBubbles || translatedMode;
+  const [ocrCache, setOcrCache] = useState<OCRCache>({});
+  const [analysisProgress, setAnalysisProgress] = useState<Record<number, number>>({});
+  const ocrCacheRef = useRef(ocrCache);
+  ocrCacheRef.current = ocrCache;
+  const analysisJobs = useRef(new Map<number, OcrJob<SpeechBubble[]>>());
+  // Analyses saved with the library, whichever provider made them
+  const storedOcr = useRef(new Map((manga.ocr ?? []).map(record => [record.index, record])));
+
+  const [translations, setTranslations] = useState<TranslationCache>({});
+  const translationsRef = useRef(translations);
+  translationsRef.current = translations;
+  // Bumped whenever cached translations stop applying, so late results are dropped
+  const translationGeneration = useRef(0);
   
   const [isDrawing, setIsDrawing] = useState(false);
   const [startPos, setStartPos] = useState({x:0,y:0});
@@ -18,20 +101,153 @@ export const Reader: React.FC<ReaderProps> = ({ manga, onClose }) => {
   const [dragged, setDragged] = useState(false);
   const [isOcrMode, setIsOcrMode] = useState(false);
   const [isOcrProcessing, setIsOcrProcessing] = useState(false);
-  const [downloadStatus, setDownloadStatus] = useState<string | null>(null);
+  const selectionJob = useRef<OcrJob<string> | null>(null);
+  const [selectionResult, setSelectionResult] = useState<SelectionResult | null>(null);
+  const [selectionWord, setSelectionWord] = useState('');
+  const ocrModel = resolveOcrModel(settings.ocrModel, manga.metadata?.language);
+  const ocrSource = `${ocrProvider.id}:${ocrModel.id}`;
+
+  // Local models are loaded straight away when already on the device, and otherwise only once
+  // text recognition is used, so opening a title offline or on a metered connection downloads nothing
+  const [modelStatus, setModelStatus] = useState<ModelStatus>('not-downloaded');
+  const [modelProgress, setModelProgress] = useState<number | null>(null);
+  const modelSource = useRef(ocrSource);
+  modelSource.current = ocrSource;
+
+  const loadOcrModel = async () => {
+    const preload = ocrProvider.preload;
+    if (!preload) return;
+    const source = ocrSource;
+    setModelStatus('loading');
+    setModelProgress(null);
+    try {
+      await preload(ocrModel, (progress) => {
+        if (modelSource.current === source) setModelProgress(progress);
+      });
+      if (modelSource.current === source) setModelStatus('ready');
+    } catch (error) {
+      console.error('Failed to load OCR model:', error);
+      if (modelSource.current === source) setModelStatus('error');
+    }
+  };
 
   useEffect(() => {
-    (async () => {
-      try {
-        await preloadModel((data) => {
-          setDownloadStatus('Downloading Model: ' + Math.round(data.progress * 100) + '%');
+    if (!ocrProvider.preload) return;
+    let cancelled = false;
+    setModelStatus('not-downloaded');
+    getModelStatus(ocrModel.repo)
+      .then((status) => {
+        if (cancelled) return;
+        setModelStatus(status);
+        if (status === 'cached') loadOcrModel();
+      })
+      .catch(error => console.error('Could not check the model cache:', error));
+    return () => { cancelled = true; };
+  }, [ocrSource]);
+
+  useEffect(() => {
+    if (modelStatus === 'not-downloaded' && (isOcrMode || analyzing)) loadOcrModel();
+  }, [modelStatus, isOcrMode, analyzing]);
+
+  // Crops the selection (in container coordinates) out of the stored page it was drawn on
+  const recognizeSelection = async (endX: number, endY: number, containerRect: DOMRect) => {
+    setSelectionRect(null);
+    const left = containerRect.left + Math.min(startPos.x, endX);
+    const top = containerRect.top + Math.min(startPos.y, endY);
+    const width = Math.abs(endX - startPos.x);
+    const height = Math.abs(endY - startPos.y);
+    const rect = { x: left - containerRect.left, y: top - containerRect.top, w: width, h: height };
+    const centerX = left + width / 2;
+    const centerY = top + height / 2;
+
+    const page = pageRefs.current.findIndex((el) => {
+      if (!el) return false;
+      const r = el.getBoundingClientRect();
+      return centerX >= r.left && centerX <= r.right && centerY >= r.top && centerY <= r.bottom;
+    });
+    const img = pageRefs.current[page];
+    if (!img || width < 2 || height < 2) {
+      setIsOcrProcessing(false);
+      return;
+    }
+
+    // The shown image may be filtered, trimmed or upscaled, so the selection is mapped back onto the page
+    const imgRect = img.getBoundingClientRect();
+    const region = toPageRegion({
+      x: (left - imgRect.left) / imgRect.width,
+      y: (top - imgRect.top) / imgRect.height,
+      width: width / imgRect.width,
+      height: height / imgRect.height,
+    }, displayPages.getCrop?.(page));
+    const crop = manga.pages.getPageBlob(page)
+      .then(blob => createImageBitmap(blob))
+      .then(bitmap => {
+        const cropW = Math.max(Math.round(region.width * bitmap.width), 1);
+        const cropH = Math.max(Math.round(region.height * bitmap.height), 1);
+        const canvas = document.createElement('canvas');
+        const ctx = canvas.getContext('2d')!;
+        canvas.width = cropW;
+        canvas.height = cropH;
+        ctx.drawImage(bitmap, region.x * bitmap.width, region.y * bitmap.height, cropW, cropH, 0, 0, cropW, cropH);
+        bitmap.close();
+        return new Promise<Blob>((resolve, reject) => canvas.toBlob(
+          (blob) => blob ? resolve(blob) : reject(new Error("Could not crop the selection.")),
+          'image/png',
+        ));
+      });
+
+    selectionJob.current?.cancel();
+    const job = ocrProvider.recognize(crop, { model: ocrModel, priority: PRIORITY_SELECTION });
+    selectionJob.current = job;
+    try {
+      const text = await job.promise;
+      setIsOcrMode(false);
+      setSelectionWord('');
+      setSelectionResult({ rect, text, status: 'translating', page, image: await crop, saved: false });
+      translateTexts([text], ocrModel.language, translationLanguage)
+        .then(([translation]) => {
+          setSelectionResult(prev => prev?.text === text ? { ...prev, translation, status: 'complete' } : prev);
+        })
+        .catch((error) => {
+          console.error('Translation failed:', error);
+          setSelectionResult(prev => prev?.text === text ? { ...prev, status: 'error' } : prev);
         });
-      } catch (error) {
-        console.error('Failed to preload OCR model:', error);
-        setDownloadStatus(null); // Clear status on error
+    } catch (error) {
+      if (!(error instanceof OcrCancelledError)) {
+        console.error('OCR processing failed:', error);
+        alert('Text recognition failed.');
       }
-    })();
-  }, []);
+    } finally {
+      if (selectionJob.current === job) {
+        selectionJob.current = null;
+        setIsOcrProcessing(false);
+      }
+    }
+  };
+
+  const saveSelectionToDeck = () => {
+    if (!selectionResult?.text) return;
+    const word = selectionWord.trim();
+    onSaveToDeck({
+      id: crypto.randomUUID(),
+      sentence: selectionResult.text,
+      word: word || undefined,
+      translation: selectionResult.status === 'complete' ? selectionResult.translation : undefined,
+      image: selectionResult.image,
+      mangaId: manga.id,
+      mangaTitle: manga.title,
+      page: selectionResult.page,
+      createdAt: Date.now(),
+    });
+    setSelectionResult({ ...selectionResult, saved: true });
+  };
+
+  const cancelSelection = () => {
+    selectionJob.current?.cancel();
+    selectionJob.current = null;
+    setIsOcrProcessing(false);
+    setSelectionResult(null);
+  };
 
   const handleMouseDown = (e: React.MouseEvent) => {
     if (!isOcrMode) return;
@@ -62,32 +278,7 @@ export const Reader: React.FC<ReaderProps> = ({ manga, onClose }) => {
     const rect = e.currentTarget.getBoundingClientRect();
     const endX = e.clientX - rect.left;
     const endY = e.clientY - rect.top;
-    const img = new Image();
-    img.crossOrigin = 'anonymous';
-    img.src = manga.pages[currentIndex];
-    img.onload = async () => {
-      const canvas = document.createElement('canvas');
-      const ctx = canvas.getContext('2d');
-      const imgRect = e.currentTarget.getBoundingClientRect();
-      const scaleX = img.naturalWidth / imgRect.width;
-      const scaleY = img.naturalHeight / imgRect.height;
-      const cropX = Math.min(startPos.x, endX) * scaleX;
-      const cropY = Math.min(startPos.y, endY) * scaleY;
-      const cropW = Math.abs(endX - startPos.x) * scaleX;
-      const cropH = Math.abs(endY - startPos.y) * scaleY;
-      canvas.width = cropW;
-      canvas.height = cropH;
-      ctx.drawImage(img, cropX, cropY, cropW, cropH, 0, 0, cropW, cropH);
-      const dataURL = canvas.toDataURL('image/png');
-      try {
-        const text = await recognizeTextFromImage(dataURL);
-        alert(`Recognized text: ${text}`);
-        setIsOcrMode(false);
-      } finally {
-        setIsOcrProcessing(false);
-      }
-    };
-    setSelectionRect(null);
+    recognizeSelection(endX, endY, rect);
   };
 
   const handleTouchStart = (e: React.TouchEvent) => {
@@ -125,54 +316,450 @@ export const Reader: React.FC<ReaderProps> = ({ manga, onClose }) => {
     const touch = e.changedTouches[0];
     const endX = touch.clientX - rect.left;
     const endY = touch.clientY - rect.top;
-    const img = new Image();
-    img.crossOrigin = 'anonymous';
-    img.src = manga.pages[currentIndex];
-    img.onload = async () => {
-      const canvas = document.createElement('canvas');
-      const ctx = canvas.getContext('2d');
-      const imgRect = e.currentTarget.getBoundingClientRect();
-      const scaleX = img.naturalWidth / imgRect.width;
-      const scaleY = img.naturalHeight / imgRect.height;
-      const cropX = Math.min(startPos.x, endX) * scaleX;
-      const cropY = Math.min(startPos.y, endY) * scaleY;
-      const cropW = Math.abs(endX - startPos.x) * scaleX;
-      const cropH = Math.abs(endY - startPos.y) * scaleY;
-      canvas.width = cropW;
-      canvas.height = cropH;
-      ctx.drawImage(img, cropX, cropY, cropW, cropH, 0, 0, cropW, cropH);
-      const dataURL = canvas.toDataURL('image/png');
-      try {
-        const text = await recognizeTextFromImage(dataURL);
-        alert(`Recognized text: ${text}`);
-        setIsOcrMode(false);
-      } finally {
-        setIsOcrProcessing(false);
-      }
+    recognizeSelection(endX, endY, rect);
+  };
+
+  // --- Progress & Bookmarks ---
+
+  const updateBookmarks = (next: Bookmark[]) => {
+    setBookmarks(next);
+    onBookmarksChange(next);
+  };
+
+  const handleAddBookmark = (e: React.FormEvent) => {
+    e.preventDefault();
+    const bookmark: Bookmark = {
+      id: crypto.randomUUID(),
+      page: currentIndex,
+      name: bookmarkName.trim() || `Page ${currentIndex + 1}`,
+      createdAt: Date.now(),
     };
-    setSelectionRect(null);
+    updateBookmarks([...bookmarks, bookmark].sort((a, b) => a.page - b.page));
+    setBookmarkName('');
+  };
+
+  const handleJumpToBookmark = (bookmark: Bookmark) => {
+    setCurrentIndex(Math.min(bookmark.page, manga.pageCount - 1));
+    setShowBookmarks(false);
+  };
+
+  const isPageBookmarked = bookmarks.some(b => b.page === currentIndex);
+
+  // --- Thumbnails ---
+
+  const [thumbnails, setThumbnails] = useState<Record<number, string>>({});
+  // The page under the pointer on the slider, previewed above it
+  const [scrubPage, setScrubPage] = useState<number | null>(null);
+
+  useEffect(() => {
+    setThumbnails({});
+    return watchThumbnails(manga.id, manga.pages, (index, url) =>
+      setThumbnails(prev => ({ ...prev, [index]: url })));
+  }, [manga.id, manga.pages]);
+
+  const handleScrub = (e: React.PointerEvent<HTMLInputElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const fraction = Math.min(Math.max((e.clientX - rect.left) / rect.width, 0), 1);
+    setScrubPage(Math.round((isRtl ? 1 - fraction : fraction) * (manga.pageCount - 1)));
   };
 
   // --- Navigation & UI ---
 
-  // Keyboard navigation
+  const isRtl = settings.direction === 'rtl';
+  const isVertical = settings.layout === 'vertical';
+
+  const updateSettings = (patch: Partial<ReaderSettings>) => {
+    const next = { ...settings, ...patch };
+    setSettings(next);
+    onSettingsChange(next);
+  };
+
+  // What is drawn on screen. OCR, deck crops and panel detection read the stored pages, so results don't
+  // depend on the filters.
+  const displayPages = useMemo(
+    () => isIdentity(settings.image) ? manga.pages : createProcessedPages(manga.pages, manga.id, settings.image!),
+    [manga.pages, manga.id, settings.image],
+  );
+  useEffect(() => () => {
+    if (displayPages !== manga.pages) displayPages.release();
+  }, [displayPages]);
+
+  // Measure page shapes just ahead of the reader so double-page scans are shown alone in spread mode.
+  // Only a small window is measured at a time to keep extraction on demand.
+  const measuredPages = useRef<Set<number>>(new Set());
   useEffect(() => {
-    const handleKeyDown = (e: KeyboardEvent) => {
-      if (e.key === 'ArrowRight' || e.key === ' ') {
-        setCurrentIndex((prev) => Math.min(prev + 1, manga.pages.length - 1));
-      } else if (e.key === 'ArrowLeft') {
-        setCurrentIndex((prev) => Math.max(prev - 1, 0));
-      } else if (e.key === 'Escape') {
-        if (document.fullscreenElement) {
-           document.exitFullscreen();
-        } else {
-           onClose();
+    if (settings.layout !== 'double') return;
+    let cancelled = false;
+    (async () => {
+      const start = Math.max(currentIndex - 1, 0);
+      const end = Math.min(currentIndex + 4, manga.pageCount - 1);
+      for (let i = start; i <= end && !cancelled; i++) {
+        if (measuredPages.current.has(i)) continue;
+        measuredPages.current.add(i);
+        try {
+          const { width, height } = await getImageSize(await manga.pages.getPageUrl(i));
+          // Recorded even after a page turn cancelled the loop, since the page is already marked as measured
+          if (isWidePage(width, height)) {
+            setWidePages(prev => new Set(prev).add(i));
+          }
+        } catch {
+          // Unreadable pages are simply paired as normal
         }
       }
+    })();
+    return () => { cancelled = true; };
+  }, [manga.pages, manga.pageCount, settings.layout, currentIndex]);
+
+  const spreads = useMemo(
+    () => settings.layout === 'double'
+      ? buildSpreads(manga.pageCount, settings.coverOffset, widePages)
+      : Array.from({ length: manga.pageCount }, (_, i) => [i]),
+    [manga.pageCount, settings.layout, settings.coverOffset, widePages]
+  );
+  const spreadIndex = findSpreadIndex(spreads, currentIndex);
+  const visiblePages = spreads[spreadIndex] ?? [currentIndex];
+
+  const handleNext = useCallback(() => setCurrentIndex((prev) => {
+    const index = findSpreadIndex(spreads, prev);
+    return spreads[Math.min(index + 1, spreads.length - 1)]?.[0] ?? prev;
+  }), [spreads]);
+  const handlePrev = useCallback(() => setCurrentIndex((prev) => {
+    const index = findSpreadIndex(spreads, prev);
+    return spreads[Math.max(index - 1, 0)]?.[0] ?? prev;
+  }), [spreads]);
+  const lastVisiblePage = visiblePages[visiblePages.length - 1];
+
+  // --- Chapters ---
+
+  const chapters = manga.chapters ?? [];
+  const chapterIndex = findChapterIndex(chapters, currentIndex);
+  const currentChapter = chapters[chapterIndex];
+  // Going back restarts the current chapter first, like a music player's previous button
+  const previousChapterPage = currentChapter && currentIndex > currentChapter.startPage
+    ? currentChapter.startPage
+    : chapters[chapterIndex - 1]?.startPage;
+  const nextChapterPage = chapters[chapterIndex + 1]?.startPage;
+
+  const jumpToPage = (page: number | undefined) => {
+    if (page === undefined) return;
+    setCurrentIndex(page);
+    setShowToc(false);
+  };
+
+  // Briefly names the chapter whenever one begins on screen
+  const [chapterBanner, setChapterBanner] = useState<string | null>(null);
+  useEffect(() => {
+    const starting = chapters.find(chapter => visiblePages.includes(chapter.startPage));
+    if (!starting) {
+      setChapterBanner(null);
+      return;
+    }
+    setChapterBanner(starting.title);
+    const timer = setTimeout(() => setChapterBanner(null), 2500);
+    return () => clearTimeout(timer);
+  }, [visiblePages.join(','), manga.chapters]);
+
+  // --- Guided view ---
+  // Steps through the panels of the pages on screen in reading order, zooming to each in turn
+
+  const [guided, setGuided] = useState(false);
+  const [panelIndex, setPanelIndex] = useState(0); // -1 means the last panel, when paging backwards
+  const [panelsByPage, setPanelsByPage] = useState<Record<number, Panel[]>>({});
+  const enterAtLastPanel = useRef(false);
+  // Pages whose panels are being found; replaced on reset so late results are dropped
+  const pendingPanels = useRef(new Set<number>());
+
+  // A new page starts at its first panel, or its last one when stepping back into it
+  useEffect(() => {
+    setPanelIndex(enterAtLastPanel.current ? -1 : 0);
+    enterAtLastPanel.current = false;
+  }, [visiblePages.join(',')]);
+
+  // Panels depend on how the page is trimmed and the reading order, so they are found again when either changes
+  useEffect(() => {
+    pendingPanels.current = new Set();
+    setPanelsByPage({});
+  }, [displayPages, isRtl]);
+
+  // Panels are found on the stored page, then mapped onto the shown image, whose trim is known once it has loaded
+  const findPanels = async (page: number) => {
+    const img = pageRefs.current[page];
+    const pending = pendingPanels.current;
+    if (!img?.complete || !img.naturalWidth || pending.has(page)) return;
+    pending.add(page);
+    try {
+      const bitmap = await createImageBitmap(await manga.pages.getPageBlob(page));
+      let panels: Panel[];
+      try {
+        panels = detectPanels(bitmap, isRtl);
+      } finally {
+        bitmap.close();
+      }
+      if (pending !== pendingPanels.current) return;
+      const crop = displayPages.getCrop?.(page);
+      const shown = panels.map(panel => fromPageRegion(panel, crop)).filter(panel => panel.width > 0 && panel.height > 0);
+      setPanelsByPage(prev => prev[page] ? prev : { ...prev, [page]: shown.length ? shown : [{ x: 0, y: 0, width: 1, height: 1 }] });
+    } catch (error) {
+      console.error(`Panel detection failed on page ${page + 1}`, error);
+    } finally {
+      pending.delete(page);
+    }
+  };
+
+  const guidedAvailable = !isVertical;
+  const guidedActive = guided && guidedAvailable;
+
+  useEffect(() => {
+    if (guidedActive) visiblePages.filter(page => !panelsByPage[page]).forEach(findPanels);
+  }, [guidedActive, visiblePages.join(','), panelsByPage]);
+
+  // A page not analysed yet counts as a single panel covering all of it
+  const guidedPanels = useMemo(
+    () => visiblePages.flatMap(page => (panelsByPage[page] ?? [{ x: 0, y: 0, width: 1, height: 1 }]).map(panel => ({ page, panel }))),
+    [visiblePages.join(','), panelsByPage],
+  );
+  const activePanel = panelIndex < 0
+    ? guidedPanels.length - 1
+    : Math.min(panelIndex, guidedPanels.length - 1);
+
+  const guidedFocus = useMemo((): ZoomFocus | null => {
+    if (!guidedActive) return null;
+    const entry = guidedPanels[activePanel];
+    const target = entry && pageRefs.current[entry.page];
+    return target ? { target, ...entry.panel } : null;
+  }, [guidedActive, guidedPanels, activePanel]);
+
+  const stepForward = useCallback(() => {
+    if (guidedActive && activePanel < guidedPanels.length - 1) {
+      setPanelIndex(activePanel + 1);
+      return;
+    }
+    handleNext();
+  }, [guidedActive, activePanel, guidedPanels.length, handleNext]);
+
+  const stepBack = useCallback(() => {
+    if (guidedActive && activePanel > 0) {
+      setPanelIndex(activePanel - 1);
+      return;
+    }
+    enterAtLastPanel.current = guidedActive;
+    handlePrev();
+  }, [guidedActive, activePanel, handlePrev]);
+
+  // Report the last page on screen so finishing on a spread counts as finished
+  useEffect(() => {
+    onProgress(lastVisiblePage);
+  }, [lastVisiblePage]);
+
+  useEffect(() => {
+    displayPages.prefetch(lastVisiblePage);
+  }, [lastVisiblePage, displayPages]);
+
+  // --- Bubble Detection ---
+
+  const startAnalysis = (page: number, priority: number) => {
+    const job = ocrProvider.analyzePage(manga.pages.getPageBlob(page), {
+      model: ocrModel,
+      priority,
+      onProgress: (progress) => setAnalysisProgress(prev => ({ ...prev, [page]: progress })),
+    });
+    analysisJobs.current.set(page, job);
+    setOcrCache(prev => ({ ...prev, [page]: { bubbles: [], status: 'loading' } }));
+
+    // A job dropped by a model switch must not touch the cache that replaced it
+    const isCurrent = () => analysisJobs.current.get(page) === job;
+    job.promise
+      .then((bubbles) => {
+        if (!isCurrent()) return;
+        setOcrCache(prev => ({ ...prev, [page]: { bubbles, status: 'complete' } }));
+        const record: PageOcr = { mangaId: manga.id, index: page, bubbles, source: ocrSource, analyzedAt: Date.now() };
+        storedOcr.current.set(page, record);
+        onPageAnalyzed(record);
+      }, (error) => {
+        if (!isCurrent()) return;
+        if (error instanceof OcrCancelledError) {
+          // Forget the page so it is queued again when the reader comes back to it
+          setOcrCache(({ [page]: _, ...rest }) => rest);
+          return;
+        }
+        console.error(`Failed to analyze page ${page + 1}`, error);
+        setOcrCache(prev => ({ ...prev, [page]: { bubbles: [], status: 'error' } }));
+      })
+      .finally(() => {
+        if (!isCurrent()) return;
+        analysisJobs.current.delete(page);
+        setAnalysisProgress(({ [page]: _, ...rest }) => rest);
+      });
+  };
+
+  // Results from another model or provider no longer apply, so switching starts over
+  // from whatever was stored for the new setup
+  useEffect(() => {
+    analysisJobs.current.forEach(job => job.cancel());
+    analysisJobs.current.clear();
+    const stored: OCRCache = {};
+    storedOcr.current.forEach((record) => {
+      if (record.source === ocrSource) stored[record.index] = { bubbles: record.bubbles, status: 'complete' };
+    });
+    ocrCacheRef.current = stored;
+    setOcrCache(stored);
+    setAnalysisProgress({});
+  }, [ocrSource]);
+
+  // Pages worth analyzing right now, with their queue priority: visible pages go to the front of
+  // the worker's queue and the next few follow in the background
+  const analysisTargets = useMemo(() => {
+    const targets = new Map<number, number>();
+    visiblePages.forEach(page => targets.set(page, PRIORITY_VISIBLE));
+    for (let offset = 1; offset <= ANALYZE_AHEAD && lastVisiblePage + offset < manga.pageCount; offset++) {
+      targets.set(lastVisiblePage + offset, PRIORITY_BACKGROUND + offset);
+    }
+    return targets;
+  }, [visiblePages.join(','), manga.pageCount]);
+
+  // Work for pages the reader has moved away from is cancelled
+  useEffect(() => {
+    const jobs = analysisJobs.current;
+    const wanted = analyzing ? analysisTargets : new Map<number, number>();
+    jobs.forEach((job, page) => {
+      const priority = wanted.get(page);
+      if (priority === undefined) job.cancel();
+      else job.setPriority(priority);
+    });
+    wanted.forEach((priority, page) => {
+      if (!jobs.has(page) && !ocrCacheRef.current[page]) startAnalysis(page, priority);
+    });
+  }, [analyzing, analysisTargets, ocrSource]);
+
+  // --- Translation ---
+
+  // Translations follow the bubbles they were made from and the chosen language
+  useEffect(() => {
+    translationGeneration.current++;
+    translationsRef.current = {};
+    setTranslations({});
+  }, [ocrSource, translationLanguage]);
+
+  // Translate each analyzed page once; flipping back to it reuses the result
+  useEffect(() => {
+    if (!translatedMode) return;
+    const generation = translationGeneration.current;
+    analysisTargets.forEach((_, page) => {
+      const analysis = ocrCache[page];
+      if (analysis?.status !== 'complete' || translationsRef.current[page]) return;
+      translationsRef.current = { ...translationsRef.current, [page]: { texts: [], status: 'loading' } };
+      setTranslations(prev => ({ ...prev, [page]: { texts: [], status: 'loading' } }));
+      translateTexts(analysis.bubbles.map(bubble => bubble.text), ocrModel.language, translationLanguage)
+        .then((texts) => {
+          if (generation !== translationGeneration.current) return;
+          setTranslations(prev => ({ ...prev, [page]: { texts, status: 'complete' } }));
+        })
+        .catch((error) => {
+          if (generation !== translationGeneration.current) return;
+          console.error(`Failed to translate page ${page + 1}`, error);
+          setTranslations(prev => ({ ...prev, [page]: { texts: [], status: 'error' } }));
+        });
+    });
+  }, [translatedMode, ocrCache, analysisTargets]);
+
+  // A pending selection belongs to the page it was drawn on
+  useEffect(() => {
+    cancelSelection();
+  }, [currentIndex]);
+
+  useEffect(() => () => {
+    analysisJobs.current.forEach(job => job.cancel());
+    selectionJob.current?.cancel();
+  }, []);
+
+  // The search hit stays marked until its page is left
+  useEffect(() => {
+    if (activeHighlight && !visiblePages.includes(activeHighlight.page)) setActiveHighlight(undefined);
+  }, [visiblePages.join(',')]);
+
+  const currentAnalysis = ocrCache[currentIndex];
+  const currentTranslation = translations[currentIndex];
+
+  const isFirstSpread = spreadIndex === 0;
+  const isLastSpread = spreadIndex === spreads.length - 1;
+
+  // --- Input bindings ---
+
+  const toggleBookmark = () => {
+    if (isPageBookmarked) {
+      updateBookmarks(bookmarks.filter(b => b.page !== currentIndex));
+      return;
+    }
+    updateBookmarks([...bookmarks, {
+      id: crypto.randomUUID(),
+      page: currentIndex,
+      name: `Page ${currentIndex + 1}`,
+      createdAt: Date.now(),
+    }].sort((a, b) => a.page - b.page));
+  };
+
+  const runAction = (action: InputAction) => {
+    switch (action) {
+      case 'nextPage': return stepForward();
+      case 'previousPage': return stepBack();
+      case 'pageLeft': return isRtl ? stepForward() : stepBack();
+      case 'pageRight': return isRtl ? stepBack() : stepForward();
+      case 'firstPage': return setCurrentIndex(0);
+      case 'lastPage': return setCurrentIndex(Math.max(manga.pageCount - 1, 0));
+      case 'nextChapter': return jumpToPage(nextChapterPage);
+      case 'previousChapter': return jumpToPage(previousChapterPage);
+      case 'toggleMenu': return toggleControls();
+      case 'toggleOcrMode': return setIsOcrMode(!isOcrMode);
+      case 'toggleFullscreen': return toggleFullScreen();
+      case 'toggleBookmark': return toggleBookmark();
+      case 'showBookmarks':
+        setShowControls(true);
+        setShowBookmarks(!showBookmarks);
+        setShowToc(false);
+        return;
+      case 'close':
+        if (showGrid) setShowGrid(false);
+        else if (document.fullscreenElement) document.exitFullscreen();
+        else onClose();
+        return;
+    }
+  };
+  // Listeners registered once call whatever the latest render's runAction is
+  const runActionRef = useRef(runAction);
+  runActionRef.current = runAction;
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      // Leave typing in text fields (bookmark names, deck words) and the settings dropdowns alone
+      if (e.target instanceof HTMLInputElement && e.target.type === 'text') return;
+      if (e.target instanceof HTMLSelectElement) return;
+      const key = keyFromEvent(e);
+      const action = key === undefined ? undefined : findBoundAction(input.keys, key);
+      if (!action) return;
+      e.preventDefault();
+      runActionRef.current(action);
     };
     window.addEventListener('keydown', handleKeyDown);
     return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [manga.pages.length, onClose]);
+  }, [input.keys]);
+
+  useEffect(() => watchGamepads((button) => {
+    const action = findBoundAction(input.gamepadButtons, button);
+    if (action) runActionRef.current(action);
+  }), [input.gamepadButtons]);
+
+  const handleTap = (e: React.MouseEvent<HTMLDivElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    runAction(input.tapZones[tapZoneAt(e.clientX - rect.left, rect.width)]);
+  };
+
+  // Swipes say which way the finger went: dragging the page left reveals the one on its right
+  const handleSwipe = (direction: 'left' | 'right') => {
+    const forward = (direction === 'left') !== isRtl;
+    if (forward ? isLastSpread : isFirstSpread) return false;
+    forward ? handleNext() : handlePrev();
+    return true;
+  };
 
   const toggleFullScreen = () => {
     if (!document.fullscreenElement) {
@@ -184,22 +771,14 @@ export const Reader: React.FC<ReaderProps> = ({ manga, onClose }) => {
     }
   };
 
-  const handleNext = () => setCurrentIndex((prev) => Math.min(prev + 1, manga.pages.length - 1));
-  const handlePrev = () => setCurrentIndex((prev) => Math.max(prev - 1, 0));
   const toggleControls = () => setShowControls(!showControls);
 
   return (
     <div className="relative h-screen w-full flex items-center justify-center bg-black overflow-hidden select-none font-sans">
-      {downloadStatus && (
-        <div className="fixed top-0 left-0 right-0 bg-blue-600 text-white text-center py-2 z-50">
-          {downloadStatus}
-        </div>
-      )}
-      
       {/* Container for Image + Overlays */}
       <div 
         className="relative h-full w-full max-w-5xl flex items-center justify-center"
-        onClick={(e) => { if (isOcrMode) return; if (dragged) { setDragged(false); return; } toggleControls(); }}
+        onClick={(e) => { if (isOcrMode) return; if (dragged) { setDragged(false); return; } handleTap(e); }}
         onMouseDown={handleMouseDown}
         onMouseMove={handleMouseMove}
         onMouseUp={handleMouseUp}
@@ -207,11 +786,46 @@ export const Reader: React.FC<ReaderProps> = ({ manga, onClose }) => {
         onTouchMove={handleTouchMove}
         onTouchEnd={handleTouchEnd}
       >
-        <img 
-            src={manga.pages[currentIndex]} 
-            className="max-h-full max-w-full object-contain shadow-2xl"
-            alt={`Page ${currentIndex + 1}`}
-        />
+        {isVertical ? (
+          <VerticalPageStrip
+            pages={displayPages}
+            pageCount={manga.pageCount}
+            currentIndex={currentIndex}
+            onIndexChange={setCurrentIndex}
+            scrollLocked={isOcrMode}
+            registerPage={registerPage}
+            renderOverlay={(index) => (analyzing && ocrCache[index]?.status === 'complete') || activeHighlight?.page === index
+              ? (
+                <BubbleOverlay
+                  analysis={analyzing ? ocrCache[index] : undefined}
+                  translation={translations[index]}
+                  typeset={translatedMode}
+                  highlight={activeHighlight?.page === index ? activeHighlight.box : undefined}
+                  crop={displayPages.getCrop?.(index)}
+                />
+              )
+              : null}
+          />
+        ) : (
+          <ZoomPanLayer disabled={isOcrMode} focus={guidedFocus} resetKey={visiblePages.join(',')} onSwipe={input.swipe ? handleSwipe : undefined}>
+          <div className={`flex h-full w-full items-center justify-center ${isRtl ? 'flex-row-reverse' : 'flex-row'}`}>
+            {visiblePages.map((page) => (
+              <ReaderPage
+                  key={page}
+                  pages={displayPages}
+                  index={page}
+                  registerPage={registerPage}
+                  analysis={analyzing ? ocrCache[page] : undefined}
+                  translation={translations[page]}
+                  typeset={translatedMode}
+                  highlight={activeHighlight?.page === page ? activeHighlight.box : undefined}
+                  className={`max-h-full object-contain shadow-2xl ${visiblePages.length > 1 ? 'max-w-[50%]' : 'max-w-full'}`}
+                  onLoad={() => { if (guidedActive) findPanels(page); }}
+              />
+            ))}
+          </div>
+          </ZoomPanLayer>
+        )}
 
         {isOcrMode && (
           <div className="absolute inset-0 bg-black/30 pointer-events-none z-10" />
@@ -229,16 +843,95 @@ export const Reader: React.FC<ReaderProps> = ({ manga, onClose }) => {
           />
         )}
 
-        {isOcrProcessing && (
-          <div className="absolute inset-0 bg-black/80 flex items-center justify-center z-50">
-            <div className="text-white text-4xl font-bold text-center">
-              🤖 AI is Processing / Downloading... Please wait
+        {selectionResult && (
+          <div
+            onClick={(e) => e.stopPropagation()}
+            onMouseDown={(e) => e.stopPropagation()}
+            onMouseUp={(e) => e.stopPropagation()}
+            onTouchStart={(e) => e.stopPropagation()}
+            onTouchEnd={(e) => e.stopPropagation()}
+            className="absolute z-40 w-72 max-w-[90%] p-3 rounded-xl bg-reader-dark/95 backdrop-blur-md border border-white/10 shadow-2xl text-sm text-white"
+            style={{
+              top: selectionResult.rect.y + selectionResult.rect.h + 8,
+              left: Math.max(selectionResult.rect.x, 8),
+            }}
+          >
+            <div className="flex items-start gap-2">
+              <p className="flex-1 whitespace-pre-wrap select-text">{selectionResult.text || 'No text found'}</p>
+              <button
+                onClick={() => setSelectionResult(null)}
+                className="size-6 shrink-0 flex items-center justify-center rounded hover:bg-white/10"
+                aria-label="Close"
+              >
+                <span className="material-symbols-outlined text-base">close</span>
+              </button>
             </div>
+            {selectionResult.text && selectionResult.translation !== selectionResult.text && (
+              <div className="mt-2 pt-2 border-t border-white/10 text-white/80">
+                {selectionResult.status === 'translating' && <p className="text-white/50 animate-pulse">Translating…</p>}
+                {selectionResult.status === 'error' && <p className="text-red-400">Translation failed</p>}
+                {selectionResult.status === 'complete' && (
+                  <p className="whitespace-pre-wrap select-text">{selectionResult.translation}</p>
+                )}
+              </div>
+            )}
+            {selectionResult.text && (
+              <>
+                <input
+                  value={selectionWord}
+                  onChange={(e) => setSelectionWord(e.target.value)}
+                  onKeyDown={(e) => { if (e.key === 'Enter') saveSelectionToDeck(); }}
+                  disabled={selectionResult.saved}
+                  placeholder="Word to study (optional)"
+                  className="mt-2 w-full rounded-lg bg-white/5 border border-white/10 text-white text-xs py-1.5 placeholder:text-white/30 focus:ring-primary focus:border-primary disabled:opacity-50"
+                />
+                <div className="mt-2 flex items-center gap-4">
+                  <button
+                    onClick={() => navigator.clipboard?.writeText(selectionResult.text)}
+                    className="flex items-center gap-1 text-xs text-white/60 hover:text-white transition-colors"
+                  >
+                    <span className="material-symbols-outlined text-sm">content_copy</span>
+                    Copy
+                  </button>
+                  <button
+                    onClick={saveSelectionToDeck}
+                    disabled={selectionResult.saved || selectionResult.status === 'translating'}
+                    className="flex items-center gap-1 text-xs text-white/60 hover:text-white disabled:hover:text-white/60 disabled:opacity-60 transition-colors"
+                  >
+                    <span className="material-symbols-outlined text-sm">{selectionResult.saved ? 'check' : 'bookmark_add'}</span>
+                    {selectionResult.saved ? 'Saved to deck' : 'Save to deck'}
+                  </button>
+                </div>
+              </>
+            )}
           </div>
         )}
-      </div>
 
+        {isOcrProcessing && (
+          <div className="absolute bottom-32 left-1/2 -translate-x-1/2 z-40 flex items-center gap-3 pl-4 pr-2 py-2 rounded-full bg-reader-dark/80 backdrop-blur-md border border-white/10 text-sm text-white shadow-2xl">
+            <span className="animate-spin size-4 border-2 border-white/30 border-t-white rounded-full" />
+            Recognizing text…
+            <button
+              onClick={(e) => { e.stopPropagation(); cancelSelection(); }}
+              onMouseDown={(e) => e.stopPropagation()}
+              onMouseUp={(e) => e.stopPropagation()}
+              onTouchStart={(e) => e.stopPropagation()}
+              onTouchEnd={(e) => e.stopPropagation()}
+              className="size-7 flex items-center justify-center rounded-full hover:bg-white/10"
+              aria-label="Cancel text recognition"
+            >
+              <span className="material-symbols-outlined text-lg">close</span>
+            </button>
+          </div>
+        )}
+      </div>
 
+      {/* Chapter start */}
+      {chapterBanner && (
+        <div className="absolute top-24 left-1/2 -translate-x-1/2 z-20 px-4 py-2 rounded-full bg-reader-dark/70 backdrop-blur-md border border-white/10 text-sm text-white pointer-events-none">
+          {chapterBanner}
+        </div>
+      )}
 
       {/* Top Overlay */}
       <div className={`absolute top-0 left-0 right-0 p-6 flex justify-between items-start transition-opacity duration-300 z-30 ${showControls ? 'opacity-100' : 'opacity-0 pointer-events-none'}`}>
@@ -249,40 +942,298 @@ export const Reader: React.FC<ReaderProps> = ({ manga, onClose }) => {
           <span className="material-symbols-outlined text-2xl">home</span>
         </button>
 
+        <div className="flex flex-col items-center gap-2">
+          {analyzing && currentAnalysis && (
+            <div className="flex items-center gap-2 px-3 py-2 rounded-full bg-reader-dark/60 backdrop-blur-md border border-white/10 text-xs text-white">
+              {currentAnalysis.status === 'loading' && (
+                <>
+                  <span className="animate-spin size-3 border-2 border-white/30 border-t-white rounded-full" />
+                  {analysisProgress[currentIndex] === undefined
+                    ? 'Analyzing page…'
+                    : `Analyzing page… ${Math.round(analysisProgress[currentIndex] * 100)}%`}
+                </>
+              )}
+              {currentAnalysis.status === 'complete' && (translatedMode && currentTranslation?.status === 'loading' ? (
+                <>
+                  <span className="animate-spin size-3 border-2 border-white/30 border-t-white rounded-full" />
+                  Translating…
+                </>
+              ) : translatedMode && currentTranslation?.status === 'error' ? (
+                <>
+                  <span className="material-symbols-outlined text-base text-red-400">error</span>
+                  Translation failed
+                </>
+              ) : (
+                <>
+                  <span className="material-symbols-outlined text-base text-primary">{translatedMode ? 'translate' : 'chat_bubble'}</span>
+                  {currentAnalysis.bubbles.length === 1 ? '1 bubble' : `${currentAnalysis.bubbles.length} bubbles`}
+                </>
+              ))}
+              {currentAnalysis.status === 'error' && (
+                <>
+                  <span className="material-symbols-outlined text-base text-red-400">error</span>
+                  Analysis failed
+                </>
+              )}
+            </div>
+          )}
+          {ocrProvider.preload && (modelStatus === 'loading' || modelStatus === 'error') && (
+            <div className="flex items-center px-3 py-2 rounded-full bg-reader-dark/60 backdrop-blur-md border border-white/10">
+              <ModelStatusBadge status={modelStatus} progress={modelProgress} />
+            </div>
+          )}
+        </div>
 
+        <div className="flex items-start gap-3">
+          <div className="relative">
+            <button 
+              onClick={() => setShowSettings(!showSettings)}
+              className={`size-12 flex items-center justify-center rounded-lg bg-reader-dark/40 backdrop-blur-md border border-white/10 hover:bg-reader-dark/60 transition-colors text-white ${showSettings ? 'bg-reader-dark/80' : ''}`}
+              aria-label="Reading settings"
+            >
+              <span className="material-symbols-outlined text-2xl">tune</span>
+            </button>
+            {showSettings && (
+              <div className="absolute right-0 top-14 w-64 max-h-[75vh] overflow-y-auto flex flex-col gap-4 p-4 rounded-xl bg-reader-dark/90 backdrop-blur-xl border border-white/10 shadow-2xl text-sm">
+                <div className="flex flex-col gap-2">
+                  <span className="text-xs uppercase tracking-wide text-white/50">Direction</span>
+                  <div className="grid grid-cols-2 gap-1 p-1 rounded-lg bg-white/5">
+                    {(['ltr', 'rtl'] as const).map((direction) => (
+                      <button
+                        key={direction}
+                        onClick={() => updateSettings({ direction })}
+                        className={`py-1.5 rounded-md transition-colors ${settings.direction === direction ? 'bg-primary text-white' : 'text-white/60 hover:text-white'}`}
+                      >
+                        {direction === 'ltr' ? 'Left to right' : 'Right to left'}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+                <div className="flex flex-col gap-2">
+                  <span className="text-xs uppercase tracking-wide text-white/50">Layout</span>
+                  <div className="grid grid-cols-3 gap-1 p-1 rounded-lg bg-white/5">
+                    {(['single', 'double', 'vertical'] as const).map((layout) => (
+                      <button
+                        key={layout}
+                        onClick={() => updateSettings({ layout })}
+                        className={`py-1.5 rounded-md transition-colors ${settings.layout === layout ? 'bg-primary text-white' : 'text-white/60 hover:text-white'}`}
+                      >
+                        {layout === 'single' ? 'Single' : layout === 'double' ? 'Spread' : 'Scroll'}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+                {settings.layout === 'double' && (
+                  <label className="flex items-center justify-between gap-2 cursor-pointer">
+                    <span className="text-white/80">Show cover alone</span>
+                    <input
+                      type="checkbox"
+                      checked={settings.coverOffset}
+                      onChange={(e) => updateSettings({ coverOffset: e.target.checked })}
+                      className="rounded border-white/20 bg-white/5 text-primary focus:ring-primary"
+                    />
+                  </label>
+                )}
+                <div className="flex flex-col gap-2">
+                  <span className="text-xs uppercase tracking-wide text-white/50">Text recognition</span>
+                  <select
+                    value={settings.ocrModel ?? ''}
+                    onChange={(e) => updateSettings({ ocrModel: (e.target.value || undefined) as OcrModelId | undefined })}
+                    className="w-full rounded-lg bg-white/5 border border-white/10 text-white text-sm py-1.5 focus:ring-primary focus:border-primary"
+                  >
+                    <option value="" className="bg-reader-dark">Automatic ({resolveOcrModel(undefined, manga.metadata?.language).name})</option>
+                    {Object.values(OCR_MODELS).map((model) => (
+                      <option key={model.id} value={model.id} className="bg-reader-dark">{model.name}</option>
+                    ))}
+                  </select>
+                  {ocrProvider.preload && (
+                    <div className="flex items-center justify-between gap-2">
+                      <ModelStatusBadge status={modelStatus} progress={modelProgress} />
+                      {(modelStatus === 'not-downloaded' || modelStatus === 'error') && (
+                        <button
+                          onClick={loadOcrModel}
+                          className="text-xs text-primary hover:text-white transition-colors"
+                        >
+                          {modelStatus === 'error' ? 'Retry' : 'Download'}
+                        </button>
+                      )}
+                    </div>
+                  )}
+                </div>
+                <ImageAdjustmentsPanel
+                  value={settings.image ?? DEFAULT_IMAGE_ADJUSTMENTS}
+                  onChange={(image) => updateSettings({ image })}
+                />
+              </div>
+            )}
+          </div>
 
-        <button 
-          onClick={toggleFullScreen}
-          className="size-12 flex items-center justify-center rounded-lg bg-reader-dark/40 backdrop-blur-md border border-white/10 hover:bg-reader-dark/60 transition-colors text-white"
-        >
-          <span className="material-symbols-outlined text-2xl">
-            {isFullScreen ? 'close_fullscreen' : 'fullscreen'}
-          </span>
-        </button>
+          <button 
+            onClick={toggleFullScreen}
+            className="size-12 flex items-center justify-center rounded-lg bg-reader-dark/40 backdrop-blur-md border border-white/10 hover:bg-reader-dark/60 transition-colors text-white"
+          >
+            <span className="material-symbols-outlined text-2xl">
+              {isFullScreen ? 'close_fullscreen' : 'fullscreen'}
+            </span>
+          </button>
+        </div>
       </div>
 
+      {showGrid && (
+        <PageGrid
+          pageCount={manga.pageCount}
+          thumbnails={thumbnails}
+          currentIndex={currentIndex}
+          direction={settings.direction}
+          bookmarkedPages={new Set(bookmarks.map(b => b.page))}
+          analyzedPages={new Set([
+            ...storedOcr.current.keys(),
+            ...Object.keys(ocrCache).map(Number).filter(page => ocrCache[page].status === 'complete'),
+          ])}
+          onSelect={(page) => { setCurrentIndex(page); setShowGrid(false); }}
+          onClose={() => setShowGrid(false)}
+        />
+      )}
+
       {/* Bottom Controls */}
       <div className={`fixed bottom-10 left-0 right-0 px-6 flex flex-col items-center gap-6 transition-all duration-300 z-30 ${showControls ? 'translate-y-0 opacity-100' : 'translate-y-20 opacity-0 pointer-events-none'}`}>
         
+        {/* Bookmark Panel */}
+        {showBookmarks && (
+          <div className="w-full max-w-xl max-h-72 flex flex-col gap-3 p-4 rounded-xl bg-reader-dark/80 backdrop-blur-xl border border-white/10 shadow-2xl">
+            <form onSubmit={handleAddBookmark} className="flex items-center gap-2">
+              <input
+                type="text"
+                value={bookmarkName}
+                onChange={(e) => setBookmarkName(e.target.value)}
+                placeholder={`Bookmark page ${currentIndex + 1}`}
+                className="flex-1 px-3 py-2 rounded-lg bg-white/5 border border-white/10 text-sm text-white placeholder:text-white/30 focus:outline-none focus:border-primary"
+              />
+              <button
+                type="submit"
+                className="px-4 py-2 rounded-lg bg-primary hover:bg-primary/90 text-sm font-medium text-white transition-colors"
+              >
+                Add
+              </button>
+            </form>
+            {bookmarks.length === 0 ? (
+              <p className="text-xs text-white/40 text-center py-2">No bookmarks yet</p>
+            ) : (
+              <ul className="flex flex-col gap-1 overflow-y-auto">
+                {bookmarks.map((bookmark) => (
+                  <li key={bookmark.id} className="flex items-center gap-2">
+                    <button
+                      onClick={() => handleJumpToBookmark(bookmark)}
+                      className={`flex-1 flex items-center gap-3 px-3 py-2 rounded-lg text-left text-sm transition-colors hover:bg-white/10 ${bookmark.page === currentIndex ? 'bg-primary/20' : ''}`}
+                    >
+                      <span className="text-xs text-white/50 w-10">p. {bookmark.page + 1}</span>
+                      <span className="flex-1 truncate text-white">{bookmark.name}</span>
+                    </button>
+                    <button
+                      onClick={() => updateBookmarks(bookmarks.filter(b => b.id !== bookmark.id))}
+                      className="size-8 flex items-center justify-center rounded-lg text-white/50 hover:text-white hover:bg-white/10 transition-colors"
+                      aria-label={`Remove bookmark ${bookmark.name}`}
+                    >
+                      <span className="material-symbols-outlined text-lg">close</span>
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+
+        {/* Table of Contents */}
+        {showToc && (
+          <div className="w-full max-w-xl max-h-72 flex flex-col gap-3 p-4 rounded-xl bg-reader-dark/80 backdrop-blur-xl border border-white/10 shadow-2xl">
+            <div className="flex items-center gap-2">
+              <button
+                onClick={() => jumpToPage(previousChapterPage)}
+                disabled={previousChapterPage === undefined}
+                className="flex-1 flex items-center justify-center gap-1 px-3 py-2 rounded-lg bg-white/5 text-sm text-white hover:bg-white/10 transition-colors disabled:opacity-30 disabled:hover:bg-white/5"
+              >
+                <span className="material-symbols-outlined text-lg">skip_previous</span>
+                Previous chapter
+              </button>
+              <button
+                onClick={() => jumpToPage(nextChapterPage)}
+                disabled={nextChapterPage === undefined}
+                className="flex-1 flex items-center justify-center gap-1 px-3 py-2 rounded-lg bg-white/5 text-sm text-white hover:bg-white/10 transition-colors disabled:opacity-30 disabled:hover:bg-white/5"
+              >
+                Next chapter
+                <span className="material-symbols-outlined text-lg">skip_next</span>
+              </button>
+            </div>
+            <ul className="flex flex-col gap-1 overflow-y-auto">
+              {chapters.map((chapter, index) => (
+                <li key={`${chapter.startPage}-${chapter.title}`}>
+                  <button
+                    onClick={() => jumpToPage(chapter.startPage)}
+                    className={`w-full flex items-center gap-3 px-3 py-2 rounded-lg text-left text-sm transition-colors hover:bg-white/10 ${index === chapterIndex ? 'bg-primary/20' : ''}`}
+                  >
+                    <span className="text-xs text-white/50 w-10">p. {chapter.startPage + 1}</span>
+                    <span className="flex-1 truncate text-white">{chapter.title}</span>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
         {/* Slider */}
-        <div className="w-full max-w-xl flex items-center gap-4">
-            <span className="text-xs text-white/50 w-8 text-right">{currentIndex + 1}</span>
-            <input 
-              type="range" 
-              min="0" 
-              max={manga.pages.length - 1} 
-              value={currentIndex} 
-              onChange={(e) => setCurrentIndex(Number(e.target.value))}
-              className="flex-1 h-1 bg-white/10 rounded-full appearance-none cursor-pointer accent-white transition-all hover:bg-white/20 [&::-webkit-slider-thumb]:appearance-none [&::-webkit-slider-thumb]:h-4 [&::-webkit-slider-thumb]:w-4 [&::-webkit-slider-thumb]:rounded-full [&::-webkit-slider-thumb]:bg-white"
-            />
-            <span className="text-xs text-white/50 w-8">{manga.pages.length}</span>
+        <div className={`w-full max-w-xl flex items-center gap-4 ${isRtl ? 'flex-row-reverse' : ''}`}>
+            <span className={`text-xs text-white/50 w-8 ${isRtl ? 'text-left' : 'text-right'}`}>{currentIndex + 1}</span>
+            <div className="relative flex-1 flex items-center">
+              <input 
+                type="range" 
+                dir={settings.direction}
+                min="0" 
+                max={manga.pageCount - 1} 
+                value={currentIndex} 
+                onChange={(e) => setCurrentIndex(Number(e.target.value))}
+                onPointerDown={handleScrub}
+                onPointerMove={handleScrub}
+                onPointerLeave={() => setScrubPage(null)}
+                onPointerUp={(e) => { if (e.pointerType !== 'mouse') setScrubPage(null); }}
+                onPointerCancel={() => setScrubPage(null)}
+                className="w-full h-1 bg-white/10 rounded-full appearance-none cursor-pointer accent-white transition-all hover:bg-white/20 [&::-webkit-slider-thumb]:appearance-none [&::-webkit-slider-thumb]:h-4 [&::-webkit-slider-thumb]:w-4 [&::-webkit-slider-thumb]:rounded-full [&::-webkit-slider-thumb]:bg-white"
+              />
+              {scrubPage !== null && manga.pageCount > 1 && (
+                <div
+                  className="absolute bottom-full mb-4 flex flex-col items-center gap-1 p-1 rounded-lg bg-reader-dark/90 border border-white/10 shadow-2xl pointer-events-none"
+                  style={{
+                    [isRtl ? 'right' : 'left']: `${(scrubPage / (manga.pageCount - 1)) * 100}%`,
+                    transform: `translateX(${isRtl ? '50%' : '-50%'})`,
+                  }}
+                >
+                  <div className="w-20 h-28 flex items-center justify-center overflow-hidden rounded bg-black/40">
+                    {thumbnails[scrubPage] ? (
+                      <img src={thumbnails[scrubPage]} alt="" className="max-h-full max-w-full object-contain" />
+                    ) : (
+                      <span className="size-4 border-2 border-white/20 border-t-white/60 rounded-full animate-spin" />
+                    )}
+                  </div>
+                  <span className="text-xs text-white">{scrubPage + 1}</span>
+                </div>
+              )}
+              {/* Chapter starts, mirrored along with the slider in right-to-left reading */}
+              {manga.pageCount > 1 && chapters.filter(chapter => chapter.startPage > 0).map(chapter => (
+                <span
+                  key={`${chapter.startPage}-${chapter.title}`}
+                  className="absolute top-1/2 -translate-y-1/2 h-3 w-0.5 rounded-full bg-white/40 pointer-events-none"
+                  style={{ [isRtl ? 'right' : 'left']: `${(chapter.startPage / (manga.pageCount - 1)) * 100}%` }}
+                  title={chapter.title}
+                />
+              ))}
+            </div>
+            <span className={`text-xs text-white/50 w-8 ${isRtl ? 'text-right' : ''}`}>{manga.pageCount}</span>
         </div>
 
         {/* Main Buttons */}
         <div className="flex items-center gap-4 p-2 rounded-xl bg-reader-dark/60 backdrop-blur-xl border border-white/10 shadow-2xl">
           <button 
-            onClick={handlePrev}
-            disabled={currentIndex === 0}
+            onClick={isRtl ? stepForward : stepBack}
+            disabled={guidedActive ? (isRtl ? isLastSpread && activePanel === guidedPanels.length - 1 : isFirstSpread && activePanel === 0) : (isRtl ? isLastSpread : isFirstSpread)}
             className="size-14 flex items-center justify-center rounded-lg hover:bg-white/10 transition-colors disabled:opacity-30 disabled:hover:bg-transparent"
           >
             <span className="material-symbols-outlined text-white text-3xl">chevron_left</span>
@@ -296,8 +1247,60 @@ export const Reader: React.FC<ReaderProps> = ({ manga, onClose }) => {
           </button>
 
           <button 
-            onClick={handleNext}
-            disabled={currentIndex === manga.pages.length - 1}
+            onClick={() => setShowBubbles(!showBubbles)}
+            className={`size-14 flex items-center justify-center rounded-lg hover:bg-white/10 transition-colors ${showBubbles ? 'bg-white/10' : ''}`}
+            aria-label="Detect speech bubbles"
+          >
+            <span className={`material-symbols-outlined text-white text-3xl ${showBubbles ? 'material-symbols-filled' : ''}`}>chat_bubble</span>
+          </button>
+
+          <button 
+            onClick={() => setTranslatedMode(!translatedMode)}
+            className={`size-14 flex items-center justify-center rounded-lg hover:bg-white/10 transition-colors ${translatedMode ? 'bg-white/10' : ''}`}
+            aria-label="Translated page"
+          >
+            <span className="material-symbols-outlined text-white text-3xl">translate</span>
+          </button>
+
+          <button 
+            onClick={() => setShowGrid(true)}
+            className="size-14 flex items-center justify-center rounded-lg hover:bg-white/10 transition-colors"
+            aria-label="All pages"
+          >
+            <span className="material-symbols-outlined text-white text-3xl">grid_view</span>
+          </button>
+
+          {chapters.length > 0 && (
+            <button 
+              onClick={() => { setShowToc(!showToc); setShowBookmarks(false); }}
+              className={`size-14 flex items-center justify-center rounded-lg hover:bg-white/10 transition-colors ${showToc ? 'bg-white/10' : ''}`}
+              aria-label="Chapters"
+            >
+              <span className="material-symbols-outlined text-white text-3xl">toc</span>
+            </button>
+          )}
+
+          <button 
+            onClick={() => { setShowBookmarks(!showBookmarks); setShowToc(false); }}
+            className={`size-14 flex items-center justify-center rounded-lg hover:bg-white/10 transition-colors ${showBookmarks ? 'bg-white/10' : ''}`}
+            aria-label="Bookmarks"
+          >
+            <span className={`material-symbols-outlined text-white text-3xl ${isPageBookmarked ? 'material-symbols-filled' : ''}`}>bookmark</span>
+          </button>
+
+          <button 
+            onClick={() => { setGuided(!guided); setPanelIndex(0); }}
+            disabled={!guidedAvailable}
+            className={`size-14 flex items-center justify-center rounded-lg hover:bg-white/10 transition-colors disabled:opacity-30 disabled:hover:bg-transparent ${guidedActive ? 'bg-white/10' : ''}`}
+            aria-label="Guided panel view"
+            title={guidedAvailable ? 'Guided panel view' : 'Not available in scroll layout'}
+          >
+            <span className="material-symbols-outlined text-white text-3xl">view_quilt</span>
+          </button>
+
+          <button 
+            onClick={isRtl ? stepBack : stepForward}
+            disabled={guidedActive ? (isRtl ? isFirstSpread && activePanel === 0 : isLastSpread && activePanel === guidedPanels.length - 1) : (isRtl ? isFirstSpread : isLastSpread)}
             className="size-14 flex items-center justify-center rounded-lg hover:bg-white/10 transition-colors disabled:opacity-30 disabled:hover:bg-transparent"
           >
             <span className="material-symbols-outlined text-white text-3xl">chevron_right</span>
@@ -0,0 +1,42 @@
+import React, { useState, useEffect } from 'react';
+import { PageAnalysis, PageProvider, PageTranslation, SpeechBubble } from '../types';
+import { PageImage } from './PageImage';
+import { BubbleOverlay } from './BubbleOverlay';
+
+interface ReaderPageProps {
+  pages: PageProvider;
+  index: number;
+  className?: string;
+  analysis?: PageAnalysis; // Bubbles are drawn once analysis is complete
+  translation?: PageTranslation;
+  typeset?: boolean;
+  highlight?: SpeechBubble['box_2d'];
+  registerPage: (index: number, el: HTMLImageElement | null) => void;
+  onLoad?: () => void;
+}
+
+// One page of the paginated layouts, with its bubble overlay positioned over the rendered image
+export const ReaderPage: React.FC<ReaderPageProps> = ({ pages, index, className, analysis, translation, typeset, highlight, registerPage, onLoad }) => {
+  const [img, setImg] = useState<HTMLImageElement | null>(null);
+
+  useEffect(() => {
+    registerPage(index, img);
+    return () => registerPage(index, null);
+  }, [img, index]);
+
+  return (
+    <>
+      <PageImage pages={pages} index={index} className={className} imgRef={setImg} onLoad={onLoad} />
+      {(analysis?.status === 'complete' || highlight) && (
+        <BubbleOverlay
+          analysis={analysis?.status === 'complete' ? analysis : undefined}
+          img={img}
+          translation={translation}
+          typeset={typeset}
+          highlight={highlight}
+          crop={pages.getCrop?.(index)}
+        />
+      )}
+    </>
+  );
+};
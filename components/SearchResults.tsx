@@ -0,0 +1,92 @@
+import React, { useState, useEffect } from 'react';
+import { LibraryItem } from '../types';
+import { SearchHit, searchLibrary } from '../utils/search';
+
+interface SearchResultsProps {
+  query: string;
+  items: LibraryItem[];
+  onOpenHit: (hit: SearchHit) => void;
+}
+
+// Wait for typing to settle before searching
+const SEARCH_DELAY = 200;
+
+export const SearchResults: React.FC<SearchResultsProps> = ({ query, items, onOpenHit }) => {
+  const [hits, setHits] = useState<SearchHit[] | null>(null);
+  const [error, setError] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    setHits(null);
+    setError(false);
+    const timer = setTimeout(() => {
+      searchLibrary(query)
+        .then((results) => { if (!cancelled) setHits(results); })
+        .catch((err) => {
+          console.error("Search failed", err);
+          if (!cancelled) setError(true);
+        });
+    }, SEARCH_DELAY);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [query]);
+
+  if (error) {
+    return <p className="py-16 text-center text-sm text-red-400">Search failed. Please try again.</p>;
+  }
+  if (!hits) {
+    return (
+      <div className="flex justify-center py-16">
+        <div className="h-8 w-8 animate-spin rounded-full border-4 border-primary border-t-transparent" />
+      </div>
+    );
+  }
+  if (hits.length === 0) {
+    return (
+      <div className="flex flex-col items-center py-16 text-center text-white/50">
+        <span className="material-symbols-outlined text-5xl mb-4 text-white/10">search_off</span>
+        <p className="text-sm max-w-md">No matches. Only pages analyzed with bubble detection are searchable.</p>
+      </div>
+    );
+  }
+
+  // Group hits by title, keeping titles in library order
+  const groups = items
+    .map(item => ({ item, hits: hits.filter(hit => hit.mangaId === item.id) }))
+    .filter(group => group.hits.length > 0);
+
+  return (
+    <div className="flex flex-col gap-6 max-w-3xl">
+      {groups.map(({ item, hits: itemHits }) => (
+        <section key={item.id} className="flex flex-col gap-2">
+          <div className="flex items-center gap-3">
+            {item.coverUrl && <img src={item.coverUrl} alt="" className="h-12 w-9 rounded object-cover" />}
+            <div className="min-w-0">
+              <h3 className="font-semibold text-white truncate">{item.title}</h3>
+              <p className="text-xs text-white/50">{itemHits.length === 1 ? '1 match' : `${itemHits.length} matches`}</p>
+            </div>
+          </div>
+          <ul className="flex flex-col gap-1">
+            {itemHits.map((hit) => (
+              <li key={`${hit.page}/${hit.bubbleIndex}`}>
+                <button
+                  onClick={() => onOpenHit(hit)}
+                  className="w-full flex items-baseline gap-3 px-3 py-2 rounded-lg text-left text-sm bg-white/5 hover:bg-white/10 transition-colors"
+                >
+                  <span className="text-xs text-white/50 w-12 shrink-0">p. {hit.page + 1}</span>
+                  <span className="flex-1 text-white/80">
+                    {hit.snippet.before}
+                    <mark className="bg-primary/40 text-white rounded px-0.5">{hit.snippet.match}</mark>
+                    {hit.snippet.after}
+                  </span>
+                </button>
+              </li>
+            ))}
+          </ul>
+        </section>
+      ))}
+    </div>
+  );
+};
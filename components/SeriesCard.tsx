@@ -0,0 +1,36 @@
+import React from 'react';
+import { LibraryItem } from '../types';
+import { getReadingStatus } from '../utils/progress';
+
+interface SeriesCardProps {
+  name: string;
+  items: LibraryItem[]; // Sorted by volume
+  onOpen: () => void;
+}
+
+export const SeriesCard: React.FC<SeriesCardProps> = ({ name, items, onOpen }) => {
+  const finished = items.filter(item => getReadingStatus(item) === 'finished').length;
+
+  return (
+    <div 
+      onClick={onOpen}
+      className="group relative aspect-[2/3] cursor-pointer transition-all duration-300 hover:scale-[1.02] active:scale-[0.98]"
+    >
+      {/* Stacked look so a series reads differently from a single volume */}
+      <div className="absolute inset-0 translate-x-1.5 -translate-y-1.5 rounded-lg bg-primary/20 ring-1 ring-white/10" />
+      <div className="relative h-full w-full overflow-hidden rounded-lg bg-primary/10 ring-1 ring-white/10 group-hover:ring-primary/50">
+        <div 
+          className="h-full w-full bg-cover bg-center transition-transform duration-500 group-hover:scale-110" 
+          style={{ backgroundImage: `url('${items[0].coverUrl}')` }}
+        />
+        <div className="absolute inset-0 bg-gradient-to-t from-black/90 via-black/10 to-transparent flex flex-col justify-end gap-1 p-4">
+          <p className="text-sm font-semibold text-white line-clamp-2">{name}</p>
+          <p className="text-xs text-white/60">{items.length} volumes · {finished} read</p>
+        </div>
+        <span className="absolute top-2 right-2 px-2 py-0.5 rounded-full bg-black/70 text-[10px] font-semibold text-white">
+          {items.length}
+        </span>
+      </div>
+    </div>
+  );
+};
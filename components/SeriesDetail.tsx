@@ -0,0 +1,61 @@
+import React from 'react';
+import { LibraryItem } from '../types';
+import { MangaCard } from './MangaCard';
+import { formatVolumeLabel } from '../utils/series';
+
+interface SeriesDetailProps {
+  name: string;
+  items: LibraryItem[]; // Sorted by volume
+  importProgress: Record<string, number>;
+  onBack: () => void;
+  onSelect: (id: string) => void;
+  onDelete: (id: string) => void;
+  onEdit: (id: string) => void;
+  onChooseCover: (id: string) => void;
+  onExportText: (id: string) => void;
+}
+
+export const SeriesDetail: React.FC<SeriesDetailProps> = ({ name, items, importProgress, onBack, onSelect, onDelete, onEdit, onChooseCover, onExportText }) => {
+  // Series-level details come from whichever volume carries them
+  const writer = items.find(item => item.metadata?.writer)?.metadata?.writer;
+  const summary = items.find(item => item.metadata?.summary)?.metadata?.summary;
+
+  return (
+    <div className="flex flex-col gap-6">
+      <div className="flex items-start gap-4">
+        <button
+          onClick={onBack}
+          className="size-10 shrink-0 flex items-center justify-center rounded-lg bg-white/5 hover:bg-white/10 transition-colors text-white"
+          aria-label="Back to library"
+        >
+          <span className="material-symbols-outlined">arrow_back</span>
+        </button>
+        <div className="flex flex-col gap-1 min-w-0">
+          <h2 className="text-2xl font-bold text-white">{name}</h2>
+          <p className="text-sm text-white/50">
+            {items.length} volumes{writer ? ` · ${writer}` : ''}
+          </p>
+          {summary && <p className="text-sm text-white/70 max-w-3xl mt-2 line-clamp-4">{summary}</p>}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-5 gap-4">
+        {items.map((item) => (
+          <div key={item.id} className="flex flex-col gap-2">
+            <MangaCard
+              item={item}
+              label={item.title}
+              importProgress={importProgress[item.id]}
+              onSelect={onSelect}
+              onDelete={onDelete}
+              onEdit={onEdit}
+              onChooseCover={onChooseCover}
+              onExportText={onExportText}
+            />
+            <p className="text-sm font-medium text-white/80 truncate">{formatVolumeLabel(item)}</p>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,258 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { AppSettings, OcrProviderId } from '../types';
+import { OCR_MODELS, OcrModel, preloadModel } from '../utils/ocr';
+import { OCR_PROVIDERS } from '../utils/ocrProviders';
+import { ModelStatus, deleteCachedModel, getModelStatus, importModelBundle } from '../utils/modelCache';
+import { ModelStatusBadge } from './ModelStatusBadge';
+import { BackupPanel } from './BackupPanel';
+import { InputBindingsPanel } from './InputBindingsPanel';
+import { TRANSLATION_LANGUAGES } from '../utils/translation';
+
+interface SettingsProps {
+  settings: AppSettings;
+  onChange: (settings: AppSettings) => void;
+  onBack: () => void;
+  onLibraryRestored: () => void;
+}
+
+const PROVIDER_DESCRIPTIONS: Record<OcrProviderId, string> = {
+  local: 'Runs a recognition model in your browser. Works offline once the model is downloaded.',
+  gemini: 'Sends page images to Google Gemini. Finds bubbles more reliably but needs a connection.',
+  mock: 'Returns canned results from ocr-fixtures.json without reading the page. For testing the OCR flow offline.',
+};
+
+export const Settings: React.FC<SettingsProps> = ({ settings, onChange, onBack, onLibraryRestored }) => {
+  const enabled = settings.ocrProviders;
+  // Enabled providers first in their fallback order, then the rest
+  const providerIds = [
+    ...enabled,
+    ...(Object.keys(OCR_PROVIDERS) as OcrProviderId[]).filter(id => !enabled.includes(id)),
+  ];
+
+  const [modelStatuses, setModelStatuses] = useState<Record<string, { status: ModelStatus; progress?: number }>>({});
+  const [importing, setImporting] = useState(false);
+  const bundleInput = useRef<HTMLInputElement>(null);
+
+  const refreshModels = async () => {
+    const entries = await Promise.all(Object.values(OCR_MODELS).map(async model =>
+      [model.repo, { status: await getModelStatus(model.repo) }] as const));
+    setModelStatuses(prev => {
+      const next = { ...prev };
+      // A download in progress knows better than the cache, which only fills once it finishes
+      entries.forEach(([repo, entry]) => {
+        if (next[repo]?.status !== 'loading') next[repo] = entry;
+      });
+      return next;
+    });
+  };
+
+  useEffect(() => {
+    refreshModels().catch(error => console.error("Could not check the model cache", error));
+  }, []);
+
+  const setModelStatus = (repo: string, status: ModelStatus, progress?: number) =>
+    setModelStatuses(prev => ({ ...prev, [repo]: { status, progress } }));
+
+  const downloadModel = async (model: OcrModel) => {
+    setModelStatus(model.repo, 'loading');
+    try {
+      await preloadModel(model, progress => setModelStatus(model.repo, 'loading', progress));
+      setModelStatus(model.repo, await getModelStatus(model.repo));
+    } catch (error) {
+      console.error(`Failed to download ${model.name}`, error);
+      setModelStatus(model.repo, 'error');
+    }
+  };
+
+  const removeModel = async (model: OcrModel) => {
+    if (!confirm(`Remove ${model.name} from this device? It will be downloaded again when needed.`)) return;
+    try {
+      await deleteCachedModel(model.repo);
+      setModelStatus(model.repo, 'not-downloaded');
+    } catch (error) {
+      console.error(`Failed to remove ${model.name}`, error);
+      alert("Could not remove the model.");
+    }
+  };
+
+  const handleImportBundle = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setImporting(true);
+    try {
+      const repos = await importModelBundle(file);
+      await refreshModels();
+      alert(`Imported ${repos.join(', ')}.`);
+    } catch (error) {
+      console.error("Failed to import model bundle", error);
+      alert(`Could not import the model bundle: ${error instanceof Error ? error.message : String(error)}`);
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const setProviders = (ocrProviders: OcrProviderId[]) => onChange({ ...settings, ocrProviders });
+
+  const toggleProvider = (id: OcrProviderId) => {
+    setProviders(enabled.includes(id) ? enabled.filter(other => other !== id) : [...enabled, id]);
+  };
+
+  const moveProvider = (id: OcrProviderId, offset: number) => {
+    const from = enabled.indexOf(id);
+    const to = from + offset;
+    if (from === -1 || to < 0 || to >= enabled.length) return;
+    const next = [...enabled];
+    [next[from], next[to]] = [next[to], next[from]];
+    setProviders(next);
+  };
+
+  return (
+    <div className="min-h-screen bg-background-dark text-white font-display">
+      <header className="sticky top-0 z-50 flex items-center gap-4 px-6 py-6 bg-background-dark/80 backdrop-blur-md border-b border-white/5">
+        <button
+          onClick={onBack}
+          className="size-10 shrink-0 flex items-center justify-center rounded-lg bg-white/5 hover:bg-white/10 transition-colors text-white"
+          aria-label="Back to library"
+        >
+          <span className="material-symbols-outlined">arrow_back</span>
+        </button>
+        <h1 className="text-3xl font-bold tracking-tight">Settings</h1>
+      </header>
+
+      <main className="px-6 py-6 max-w-2xl flex flex-col gap-8">
+        <section className="flex flex-col gap-3">
+          <div>
+            <h2 className="text-lg font-semibold">Text recognition</h2>
+            <p className="text-sm text-white/50">Enabled providers are tried from top to bottom; if one fails, the next one takes over.</p>
+          </div>
+          <ul className="flex flex-col gap-2">
+            {providerIds.map((id) => {
+              const provider = OCR_PROVIDERS[id];
+              const position = enabled.indexOf(id);
+              const available = provider.isAvailable();
+              return (
+                <li key={id} className={`flex items-center gap-3 p-3 rounded-xl bg-white/5 border border-white/10 ${available ? '' : 'opacity-50'}`}>
+                  <input
+                    type="checkbox"
+                    checked={position !== -1}
+                    disabled={!available && position === -1}
+                    onChange={() => toggleProvider(id)}
+                    className="rounded border-white/20 bg-white/5 text-primary focus:ring-primary"
+                    aria-label={`Use ${provider.name}`}
+                  />
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm font-medium">
+                      {position !== -1 && <span className="text-white/40 mr-2">{position + 1}.</span>}
+                      {provider.name}
+                    </p>
+                    <p className="text-xs text-white/50">
+                      {available ? PROVIDER_DESCRIPTIONS[id] : 'Unavailable: this build has no GEMINI_API_KEY.'}
+                    </p>
+                  </div>
+                  {position !== -1 && (
+                    <div className="flex flex-col">
+                      <button
+                        onClick={() => moveProvider(id, -1)}
+                        disabled={position === 0}
+                        className="size-7 flex items-center justify-center rounded hover:bg-white/10 disabled:opacity-30"
+                        aria-label={`Move ${provider.name} up`}
+                      >
+                        <span className="material-symbols-outlined text-lg">keyboard_arrow_up</span>
+                      </button>
+                      <button
+                        onClick={() => moveProvider(id, 1)}
+                        disabled={position === enabled.length - 1}
+                        className="size-7 flex items-center justify-center rounded hover:bg-white/10 disabled:opacity-30"
+                        aria-label={`Move ${provider.name} down`}
+                      >
+                        <span className="material-symbols-outlined text-lg">keyboard_arrow_down</span>
+                      </button>
+                    </div>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+          {enabled.every(id => !OCR_PROVIDERS[id].isAvailable()) && (
+            <p className="text-sm text-amber-400">No usable provider is enabled, so text recognition is off.</p>
+          )}
+        </section>
+
+        <section className="flex flex-col gap-3">
+          <div>
+            <h2 className="text-lg font-semibold">On-device models</h2>
+            <p className="text-sm text-white/50">Downloaded models are kept in the browser so recognition works offline. Without a connection, import a zip of the model folders (e.g. <code>Xenova/trocr-small-printed/…</code>) instead.</p>
+          </div>
+          <ul className="flex flex-col gap-2">
+            {Object.values(OCR_MODELS).map((model) => {
+              const { status, progress } = modelStatuses[model.repo] ?? { status: 'not-downloaded' as const };
+              return (
+                <li key={model.id} className="flex items-center gap-3 p-3 rounded-xl bg-white/5 border border-white/10">
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm font-medium">{model.name}</p>
+                    <p className="text-xs text-white/40 truncate">{model.repo}</p>
+                  </div>
+                  <ModelStatusBadge status={status} progress={progress} />
+                  {(status === 'not-downloaded' || status === 'error') && (
+                    <button
+                      onClick={() => downloadModel(model)}
+                      className="size-8 flex items-center justify-center rounded-lg hover:bg-white/10 transition-colors"
+                      aria-label={`Download ${model.name}`}
+                    >
+                      <span className="material-symbols-outlined text-lg">download</span>
+                    </button>
+                  )}
+                  {(status === 'cached' || status === 'ready') && (
+                    <button
+                      onClick={() => removeModel(model)}
+                      className="size-8 flex items-center justify-center rounded-lg hover:bg-white/10 transition-colors"
+                      aria-label={`Remove ${model.name}`}
+                    >
+                      <span className="material-symbols-outlined text-lg">delete</span>
+                    </button>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+          <input ref={bundleInput} type="file" accept=".zip,application/zip" className="hidden" onChange={handleImportBundle} />
+          <button
+            onClick={() => bundleInput.current?.click()}
+            disabled={importing}
+            className="self-start flex items-center gap-2 px-4 py-2 rounded-lg bg-white/5 hover:bg-white/10 border border-white/10 text-sm transition-colors disabled:opacity-50"
+          >
+            <span className="material-symbols-outlined text-lg">{importing ? 'hourglass_empty' : 'upload_file'}</span>
+            {importing ? 'Importing…' : 'Import model bundle'}
+          </button>
+        </section>
+
+        <section className="flex flex-col gap-3">
+          <div>
+            <h2 className="text-lg font-semibold">Translation</h2>
+            <p className="text-sm text-white/50">Recognized text is translated on your device. The model for a language pair is downloaded the first time it is used.</p>
+          </div>
+          <label className="flex items-center justify-between gap-4 p-3 rounded-xl bg-white/5 border border-white/10">
+            <span className="text-sm font-medium">Translate into</span>
+            <select
+              value={settings.translationLanguage}
+              onChange={(e) => onChange({ ...settings, translationLanguage: e.target.value })}
+              className="rounded-lg bg-white/5 border border-white/10 text-white text-sm py-1.5 focus:ring-primary focus:border-primary"
+            >
+              {TRANSLATION_LANGUAGES.map((language) => (
+                <option key={language.code} value={language.code} className="bg-reader-dark">{language.name}</option>
+              ))}
+            </select>
+          </label>
+        </section>
+
+        <InputBindingsPanel
+          value={settings.input}
+          onChange={(input) => onChange({ ...settings, input })}
+        />
+
+        <BackupPanel onRestored={onLibraryRestored} />
+      </main>
+    </div>
+  );
+};
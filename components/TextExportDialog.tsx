@@ -0,0 +1,151 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { LibraryItem, MangaItem, PageOcr } from '../types';
+import { loadManga, releaseManga } from '../utils/storage';
+import { resolveOcrModel } from '../utils/ocr';
+import { OcrProvider } from '../utils/ocrProviders';
+import { downloadBlob } from '../utils/fileUtils';
+import {
+  TEXT_EXPORT_FORMATS, TextExportCancelledError, TextExportFormat, TextExportProgress, exportTitleText,
+} from '../utils/textExport';
+
+interface TextExportDialogProps {
+  item: LibraryItem;
+  ocrProvider: OcrProvider;
+  onPageAnalyzed: (record: PageOcr) => void;
+  onClose: () => void;
+}
+
+// Saves a title's recognized text as a transcript or searchable PDF, recognizing missing pages first
+export const TextExportDialog: React.FC<TextExportDialogProps> = ({ item, ocrProvider, onPageAnalyzed, onClose }) => {
+  const [manga, setManga] = useState<MangaItem | null>(null);
+  const [format, setFormat] = useState<TextExportFormat>('markdown');
+  const [progress, setProgress] = useState<TextExportProgress | null>(null);
+  const cancelExport = useRef<(() => void) | null>(null);
+
+  useEffect(() => {
+    let opened: MangaItem | null = null;
+    let cancelled = false;
+    loadManga(item.id)
+      .then((loaded) => {
+        if (cancelled) {
+          releaseManga(loaded);
+          return;
+        }
+        opened = loaded;
+        setManga(loaded);
+      })
+      .catch((error) => {
+        console.error("Failed to load manga", error);
+        alert("Failed to load this manga from storage.");
+        onClose();
+      });
+    return () => {
+      cancelled = true;
+      cancelExport.current?.();
+      if (opened) releaseManga(opened);
+    };
+  }, [item.id]);
+
+  const analyzedPages = new Set(manga?.ocr?.map(record => record.index)).size;
+  const missingPages = manga ? manga.pageCount - analyzedPages : 0;
+  const running = progress !== null;
+
+  const runExport = async () => {
+    if (!manga) return;
+    const model = resolveOcrModel(item.readerSettings?.ocrModel, item.metadata?.language);
+    const job = exportTitleText(manga, format, {
+      provider: ocrProvider,
+      model,
+      source: `${ocrProvider.id}:${model.id}`,
+      direction: item.readerSettings?.direction ?? item.metadata?.readingDirection ?? 'ltr',
+      onProgress: setProgress,
+      onPageAnalyzed,
+    });
+    cancelExport.current = job.cancel;
+    setProgress({ label: 'Starting…', done: 0, total: 1 });
+    try {
+      const blob = await job.promise;
+      const { extension } = TEXT_EXPORT_FORMATS.find(option => option.format === format)!;
+      downloadBlob(blob, `${item.title}.${extension}`);
+      onClose();
+    } catch (error) {
+      if (error instanceof TextExportCancelledError) return;
+      console.error("Failed to export text", error);
+      alert(`Could not export the text of this title: ${error instanceof Error ? error.message : String(error)}`);
+    } finally {
+      cancelExport.current = null;
+      setProgress(null);
+    }
+  };
+
+  return (
+    <div onClick={running ? undefined : onClose} className="fixed inset-0 z-[100] flex items-center justify-center bg-black/70 backdrop-blur-sm p-4">
+      <div
+        onClick={(e) => e.stopPropagation()}
+        className="w-full max-w-md flex flex-col gap-4 p-6 rounded-xl bg-reader-dark border border-white/10 shadow-2xl text-white"
+      >
+        <div>
+          <h2 className="text-lg font-semibold">Export text</h2>
+          <p className="text-sm text-white/50 truncate">{item.title}</p>
+        </div>
+
+        <div className="flex flex-col gap-2">
+          {TEXT_EXPORT_FORMATS.map((option) => (
+            <label key={option.format} className="flex items-center gap-3 p-3 rounded-xl bg-white/5 border border-white/10 text-sm">
+              <input
+                type="radio"
+                name="text-export-format"
+                checked={format === option.format}
+                disabled={running}
+                onChange={() => setFormat(option.format)}
+                className="border-white/20 bg-white/5 text-primary focus:ring-primary"
+              />
+              {option.label}
+            </label>
+          ))}
+        </div>
+
+        {manga && (
+          <p className="text-xs text-white/50">
+            {missingPages === 0
+              ? `All ${manga.pageCount} pages have been recognized.`
+              : ocrProvider.isAvailable()
+                ? `${missingPages} of ${manga.pageCount} pages have not been recognized yet and will be first. This can take a while.`
+                : `${missingPages} of ${manga.pageCount} pages have not been recognized and no text recognition provider is enabled, so they will have no text.`}
+          </p>
+        )}
+
+        {progress && (
+          <div className="flex flex-col gap-2">
+            <div className="flex justify-between gap-4 text-sm">
+              <span className="truncate">{progress.label}</span>
+              <span className="text-white/50 shrink-0">{progress.done} / {progress.total}</span>
+            </div>
+            <div className="h-1.5 rounded-full bg-white/10 overflow-hidden">
+              <div
+                className="h-full bg-primary transition-all"
+                style={{ width: `${progress.total ? (progress.done / progress.total) * 100 : 0}%` }}
+              />
+            </div>
+          </div>
+        )}
+
+        <div className="flex justify-end gap-2">
+          <button
+            onClick={running ? () => cancelExport.current?.() : onClose}
+            className="px-4 py-2 rounded-lg bg-white/5 hover:bg-white/10 text-sm"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={runExport}
+            disabled={!manga || running}
+            className="px-4 py-2 rounded-lg bg-primary hover:bg-primary/90 disabled:opacity-50 text-sm font-bold"
+          >
+            {running ? 'Exporting…' : 'Export'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
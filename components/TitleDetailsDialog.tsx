@@ -0,0 +1,87 @@
+import React, { useState } from 'react';
+import { LibraryCollection, LibraryItem } from '../types';
+import { LibraryDetails } from '../utils/storage';
+import { parseTags } from '../utils/libraryView';
+
+interface TitleDetailsDialogProps {
+  item: LibraryItem;
+  collections: LibraryCollection[];
+  onSave: (details: LibraryDetails) => void;
+  onClose: () => void;
+}
+
+// Rename a title, edit its tags and pick the shelves it sits on
+export const TitleDetailsDialog: React.FC<TitleDetailsDialogProps> = ({ item, collections, onSave, onClose }) => {
+  const [title, setTitle] = useState(item.title);
+  const [tags, setTags] = useState((item.tags ?? []).join(', '));
+  const [collectionIds, setCollectionIds] = useState<string[]>(item.collectionIds ?? []);
+
+  const toggleCollection = (id: string) => {
+    setCollectionIds(collectionIds.includes(id) ? collectionIds.filter(other => other !== id) : [...collectionIds, id]);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!title.trim()) return;
+    onSave({
+      title: title.trim(),
+      tags: parseTags(tags),
+      // Drop shelves that have since been deleted
+      collectionIds: collectionIds.filter(id => collections.some(collection => collection.id === id)),
+    });
+  };
+
+  const fieldClass = "w-full rounded-lg bg-white/5 border border-white/10 text-white text-sm py-2 placeholder:text-white/30 focus:ring-primary focus:border-primary";
+
+  return (
+    <div onClick={onClose} className="fixed inset-0 z-[100] flex items-center justify-center bg-black/70 backdrop-blur-sm p-4">
+      <form
+        onClick={(e) => e.stopPropagation()}
+        onSubmit={handleSubmit}
+        className="w-full max-w-md flex flex-col gap-4 p-6 rounded-xl bg-reader-dark border border-white/10 shadow-2xl text-white"
+      >
+        <h2 className="text-lg font-semibold">Edit details</h2>
+        <label className="flex flex-col gap-1 text-sm text-white/70">
+          Title
+          <input type="text" autoFocus value={title} onChange={(e) => setTitle(e.target.value)} className={fieldClass} />
+        </label>
+        <label className="flex flex-col gap-1 text-sm text-white/70">
+          Tags
+          <input
+            type="text"
+            value={tags}
+            onChange={(e) => setTags(e.target.value)}
+            placeholder="Comma separated, e.g. action, re-read"
+            className={fieldClass}
+          />
+        </label>
+        <div className="flex flex-col gap-2 text-sm">
+          <span className="text-white/70">Collections</span>
+          {collections.length === 0 ? (
+            <p className="text-xs text-white/40">No collections yet. Create one from the library toolbar.</p>
+          ) : (
+            collections.map((collection) => (
+              <label key={collection.id} className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={collectionIds.includes(collection.id)}
+                  onChange={() => toggleCollection(collection.id)}
+                  className="rounded border-white/20 bg-white/5 text-primary focus:ring-primary"
+                />
+                {collection.name}
+              </label>
+            ))
+          )}
+        </div>
+        <div className="flex justify-end gap-2 pt-2">
+          <button type="button" onClick={onClose} className="px-4 py-2 rounded-lg bg-white/5 hover:bg-white/10 text-sm">
+            Cancel
+          </button>
+          <button type="submit" disabled={!title.trim()} className="px-4 py-2 rounded-lg bg-primary hover:bg-primary/90 disabled:opacity-50 text-sm font-bold">
+            Save
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
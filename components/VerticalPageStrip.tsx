@@ -0,0 +1,114 @@
+import React, { useState, useEffect, useLayoutEffect, useRef } from 'react';
+import { PageProvider } from '../types';
+import { PageImage } from './PageImage';
+
+interface VerticalPageStripProps {
+  pages: PageProvider;
+  pageCount: number;
+  currentIndex: number;
+  onIndexChange: (index: number) => void;
+  scrollLocked: boolean; // Freeze scrolling while an OCR selection is drawn
+  registerPage: (index: number, el: HTMLImageElement | null) => void;
+  renderOverlay?: (index: number) => React.ReactNode; // Drawn over each mounted page
+}
+
+// How far outside the viewport (in viewport heights) pages stay decoded
+const LOAD_MARGIN = 1;
+// Height / width used for a page slot until its real size is known
+const DEFAULT_ASPECT = 1.5;
+
+export const VerticalPageStrip: React.FC<VerticalPageStripProps> = ({ pages, pageCount, currentIndex, onIndexChange, scrollLocked, registerPage, renderOverlay }) => {
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const slotRefs = useRef<(HTMLDivElement | null)[]>([]);
+  const reportedIndex = useRef(currentIndex);
+  const [loaded, setLoaded] = useState<Set<number>>(new Set());
+  const [aspects, setAspects] = useState<Record<number, number>>({});
+
+  // Mount images only for slots near the viewport; the rest are empty boxes of the right height
+  useEffect(() => {
+    const root = scrollRef.current;
+    if (!root) return;
+    const observer = new IntersectionObserver((entries) => {
+      setLoaded((prev) => {
+        const next = new Set(prev);
+        entries.forEach((entry) => {
+          const index = Number((entry.target as HTMLElement).dataset.index);
+          if (entry.isIntersecting) next.add(index);
+          else next.delete(index);
+        });
+        return next;
+      });
+    }, { root, rootMargin: `${LOAD_MARGIN * 100}% 0px` });
+    slotRefs.current.forEach((el) => el && observer.observe(el));
+    return () => observer.disconnect();
+  }, [pageCount]);
+
+  // Start at the resumed page
+  useLayoutEffect(() => {
+    slotRefs.current[currentIndex]?.scrollIntoView({ block: 'start' });
+  }, []);
+
+  // Follow jumps made from outside (slider, bookmarks, keyboard)
+  useEffect(() => {
+    if (currentIndex === reportedIndex.current) return;
+    reportedIndex.current = currentIndex;
+    slotRefs.current[currentIndex]?.scrollIntoView({ block: 'start' });
+  }, [currentIndex]);
+
+  // The current page is the one crossing the middle of the viewport
+  const handleScroll = () => {
+    const root = scrollRef.current;
+    if (!root) return;
+    const middle = root.scrollTop + root.clientHeight / 2;
+    let low = 0;
+    let high = pageCount - 1;
+    while (low < high) {
+      const mid = Math.ceil((low + high) / 2);
+      const slot = slotRefs.current[mid];
+      if (slot && slot.offsetTop <= middle) low = mid;
+      else high = mid - 1;
+    }
+    if (low !== reportedIndex.current) {
+      reportedIndex.current = low;
+      onIndexChange(low);
+    }
+  };
+
+  const handleImageLoad = (index: number, img: HTMLImageElement) => {
+    const aspect = img.naturalHeight / img.naturalWidth;
+    if (aspects[index] !== aspect) {
+      setAspects((prev) => ({ ...prev, [index]: aspect }));
+    }
+  };
+
+  return (
+    <div
+      ref={scrollRef}
+      onScroll={handleScroll}
+      className={`absolute inset-0 ${scrollLocked ? 'overflow-hidden' : 'overflow-y-auto'}`}
+    >
+      <div className="mx-auto w-full max-w-3xl">
+        {Array.from({ length: pageCount }, (_, index) => (
+          <div
+            key={index}
+            ref={(el) => { slotRefs.current[index] = el; }}
+            data-index={index}
+            className="relative w-full"
+            style={{ aspectRatio: `1 / ${aspects[index] ?? DEFAULT_ASPECT}` }}
+          >
+            {loaded.has(index) && (
+              <PageImage
+                pages={pages}
+                index={index}
+                imgRef={(el) => registerPage(index, el)}
+                onLoad={(img) => handleImageLoad(index, img)}
+                className="block h-full w-full"
+              />
+            )}
+            {loaded.has(index) && renderOverlay?.(index)}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,269 @@
+import React, { useState, useEffect, useLayoutEffect, useRef } from 'react';
+
+export interface ZoomFocus {
+  target: HTMLElement; // Laid out inside the layer
+  // Area of the target to fit to the screen, as fractions of its size
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+interface ZoomPanLayerProps {
+  children: React.ReactNode;
+  disabled?: boolean; // Gestures are ignored, e.g. while drawing OCR selections; the current zoom stays
+  focus?: ZoomFocus | null; // Guided view: the layer animates to this area and ignores gestures
+  resetKey: string; // Zoom resets whenever this changes, e.g. on a page turn
+  // Horizontal touch swipes at normal zoom; returns whether that turned the page, which then slides in
+  onSwipe?: (direction: 'left' | 'right') => boolean;
+}
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+interface Transform {
+  scale: number;
+  x: number;
+  y: number;
+}
+
+const IDENTITY: Transform = { scale: 1, x: 0, y: 0 };
+const MAX_SCALE = 5;
+const DOUBLE_TAP_SCALE = 2.5;
+const DOUBLE_TAP_MS = 300;
+// Movement below this is still a tap
+const TAP_SLOP = 8;
+const FOCUS_MARGIN = 0.95;
+// Share of the layer's width a swipe must cover to turn the page
+const SWIPE_THRESHOLD = 0.2;
+
+// Keeps the content covering the layer, so it can't be panned off screen
+const clamp = ({ scale, x, y }: Transform, width: number, height: number): Transform => {
+  const s = Math.min(Math.max(scale, 1), MAX_SCALE);
+  return {
+    scale: s,
+    x: Math.min(0, Math.max(width - width * s, x)),
+    y: Math.min(0, Math.max(height - height * s, y)),
+  };
+};
+
+// Scales around a point of the layer (in layer pixels), keeping that point where it is on screen
+const zoomAt = (transform: Transform, scale: number, px: number, py: number): Transform => {
+  const ratio = scale / transform.scale;
+  return { scale, x: px - (px - transform.x) * ratio, y: py - (py - transform.y) * ratio };
+};
+
+// Pinch, wheel and double-tap zoom with panning for the paginated layouts. The transform is plain CSS,
+// so anything measuring the page with getBoundingClientRect (OCR selections) sees it zoomed as well.
+export const ZoomPanLayer: React.FC<ZoomPanLayerProps> = ({ children, disabled, focus, resetKey, onSwipe }) => {
+  const ref = useRef<HTMLDivElement>(null);
+  const [transform, setTransform] = useState<Transform>(IDENTITY);
+  const [animate, setAnimate] = useState(false);
+  const [size, setSize] = useState({ width: 0, height: 0 });
+  const pointers = useRef<Map<number, Point>>(new Map());
+  const gesture = useRef<{ start: Transform; distance: number; midX: number; midY: number; moved: boolean; swipe?: number } | null>(null);
+  const lastTap = useRef<{ time: number; x: number; y: number } | null>(null);
+  const suppressClick = useRef(false);
+  // Where the next page enters from after a swipe turned it
+  const slideFrom = useRef<number | null>(null);
+  const transformRef = useRef(transform);
+  transformRef.current = transform;
+  const locked = disabled || !!focus;
+
+  useEffect(() => {
+    const el = ref.current;
+    if (!el) return;
+    const observer = new ResizeObserver(() => setSize({ width: el.clientWidth, height: el.clientHeight }));
+    observer.observe(el);
+    return () => observer.disconnect();
+  }, []);
+
+  // Runs before paint so a swiped-in page never flashes in place before sliding
+  useLayoutEffect(() => {
+    const from = slideFrom.current;
+    slideFrom.current = null;
+    setAnimate(false);
+    if (from === null) {
+      setTransform(IDENTITY);
+      return;
+    }
+    setTransform({ ...IDENTITY, x: from });
+    // Two frames: the first paints the page off to the side, the second starts the transition
+    let frame = requestAnimationFrame(() => {
+      frame = requestAnimationFrame(() => {
+        setAnimate(true);
+        setTransform(IDENTITY);
+      });
+    });
+    return () => cancelAnimationFrame(frame);
+  }, [resetKey]);
+
+  // Fit the focused area, measured from the target's layout box (offsets ignore our own transform)
+  useLayoutEffect(() => {
+    if (!focus) {
+      setTransform(IDENTITY);
+      return;
+    }
+    const { target } = focus;
+    const left = target.offsetLeft + focus.x * target.offsetWidth;
+    const top = target.offsetTop + focus.y * target.offsetHeight;
+    const width = focus.width * target.offsetWidth;
+    const height = focus.height * target.offsetHeight;
+    if (!width || !height || !size.width) return;
+    const scale = Math.min(MAX_SCALE, Math.max(1, Math.min(size.width / width, size.height / height) * FOCUS_MARGIN));
+    setAnimate(true);
+    setTransform(clamp({
+      scale,
+      x: size.width / 2 - scale * (left + width / 2),
+      y: size.height / 2 - scale * (top + height / 2),
+    }, size.width, size.height));
+  }, [focus, size.width, size.height]);
+
+  const toLocal = (clientX: number, clientY: number) => {
+    const rect = ref.current!.getBoundingClientRect();
+    // The bounding rect includes our transform; undo it to get layer coordinates
+    const { x, y } = transformRef.current;
+    const originX = rect.left - x;
+    const originY = rect.top - y;
+    return { x: clientX - originX, y: clientY - originY };
+  };
+
+  const update = (next: Transform, animated = false) => {
+    setAnimate(animated);
+    setTransform(clamp(next, size.width, size.height));
+  };
+
+  const toggleZoomAt = (clientX: number, clientY: number) => {
+    const point = toLocal(clientX, clientY);
+    const current = transformRef.current;
+    update(current.scale > 1 ? IDENTITY : zoomAt(current, DOUBLE_TAP_SCALE, point.x, point.y), true);
+  };
+
+  // Wheel events must be cancelled to stop the page scrolling, which React's passive listener can't do
+  useEffect(() => {
+    const el = ref.current;
+    if (!el || locked) return;
+    const handleWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      const point = toLocal(e.clientX, e.clientY);
+      const current = transformRef.current;
+      const scale = Math.min(Math.max(current.scale * Math.exp(-e.deltaY * 0.002), 1), MAX_SCALE);
+      update(zoomAt(current, scale, point.x, point.y));
+    };
+    el.addEventListener('wheel', handleWheel, { passive: false });
+    return () => el.removeEventListener('wheel', handleWheel);
+  }, [locked, size.width, size.height]);
+
+  const startGesture = () => {
+    const points: Point[] = Array.from(pointers.current.values());
+    const [a, b = a] = points;
+    const mid = toLocal((a.x + b.x) / 2, (a.y + b.y) / 2);
+    gesture.current = {
+      start: transformRef.current,
+      distance: Math.hypot(a.x - b.x, a.y - b.y),
+      midX: mid.x,
+      midY: mid.y,
+      moved: gesture.current?.moved ?? false,
+    };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    if (locked) return;
+    pointers.current.set(e.pointerId, { x: e.clientX, y: e.clientY });
+    if (pointers.current.size === 1) gesture.current = null;
+    startGesture();
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (locked || !pointers.current.has(e.pointerId) || !gesture.current) return;
+    pointers.current.set(e.pointerId, { x: e.clientX, y: e.clientY });
+    const points: Point[] = Array.from(pointers.current.values());
+    const { start, distance, midX, midY } = gesture.current;
+
+    if (points.length >= 2) {
+      const [a, b] = points;
+      const mid = toLocal((a.x + b.x) / 2, (a.y + b.y) / 2);
+      const scale = Math.min(Math.max(start.scale * Math.hypot(a.x - b.x, a.y - b.y) / distance, 1), MAX_SCALE);
+      const zoomed = zoomAt(start, scale, midX, midY);
+      gesture.current.moved = true;
+      update({ ...zoomed, x: zoomed.x + mid.x - midX, y: zoomed.y + mid.y - midY });
+    } else if (start.scale <= 1 && onSwipe && e.pointerType !== 'mouse') {
+      // At normal zoom a one-finger drag moves the page sideways, following the finger
+      const point = toLocal(points[0].x, points[0].y);
+      const dx = point.x - midX;
+      if (!gesture.current.moved && (Math.abs(dx) < TAP_SLOP || Math.abs(dx) < Math.abs(point.y - midY))) return;
+      gesture.current.moved = true;
+      gesture.current.swipe = dx;
+      setAnimate(false);
+      setTransform({ ...IDENTITY, x: dx });
+    } else if (start.scale > 1) {
+      const point = toLocal(points[0].x, points[0].y);
+      const dx = point.x - midX;
+      const dy = point.y - midY;
+      if (!gesture.current.moved && Math.hypot(dx, dy) < TAP_SLOP) return;
+      gesture.current.moved = true;
+      update({ ...start, x: start.x + dx, y: start.y + dy });
+    }
+  };
+
+  const handlePointerUp = (e: React.PointerEvent) => {
+    if (!pointers.current.delete(e.pointerId)) return;
+    const moved = gesture.current?.moved ?? false;
+    const swipe = gesture.current?.swipe;
+    if (pointers.current.size > 0) {
+      // One finger lifted from a pinch; carry on panning with the other
+      startGesture();
+      return;
+    }
+    gesture.current = null;
+    if (swipe !== undefined) {
+      suppressClick.current = true;
+      const turned = Math.abs(swipe) > size.width * SWIPE_THRESHOLD && onSwipe!(swipe < 0 ? 'left' : 'right');
+      // The old page leaves with the finger and the next one comes in from the opposite edge
+      if (turned) slideFrom.current = swipe < 0 ? size.width : -size.width;
+      else update(IDENTITY, true);
+      return;
+    }
+    if (moved) {
+      suppressClick.current = true;
+      return;
+    }
+    // Mice get the native dblclick; touch and pens are timed here
+    if (e.pointerType === 'mouse') return;
+    const now = Date.now();
+    const tap = lastTap.current;
+    if (tap && now - tap.time < DOUBLE_TAP_MS && Math.hypot(e.clientX - tap.x, e.clientY - tap.y) < TAP_SLOP * 3) {
+      lastTap.current = null;
+      suppressClick.current = true;
+      toggleZoomAt(e.clientX, e.clientY);
+    } else {
+      lastTap.current = { time: now, x: e.clientX, y: e.clientY };
+    }
+  };
+
+  return (
+    <div
+      ref={ref}
+      className={`relative h-full w-full origin-top-left ${animate ? 'transition-transform duration-300 ease-out' : ''}`}
+      style={{ transform: `translate(${transform.x}px, ${transform.y}px) scale(${transform.scale})`, touchAction: locked ? undefined : 'none' }}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerUp}
+      onPointerLeave={handlePointerUp}
+      onDragStart={(e) => e.preventDefault()}
+      onDoubleClick={(e) => { if (!locked) toggleZoomAt(e.clientX, e.clientY); }}
+      onClickCapture={(e) => {
+        // A pan or double tap shouldn't also toggle the reader controls
+        if (suppressClick.current) {
+          suppressClick.current = false;
+          e.stopPropagation();
+        }
+      }}
+    >
+      {children}
+    </div>
+  );
+};
@@ -0,0 +1,93 @@
+// Offline support. The build (see the precache plugin in vite.config.ts) replaces the two
+// placeholders below with every file it emitted and a version derived from them, so each
+// deploy installs a fresh cache and drops the previous one.
+
+const VERSION = '__PRECACHE_VERSION__';
+const PRECACHE = /* __PRECACHE_FILES__ */ [];
+
+const CACHE_PREFIX = 'mangalunar-app-';
+const APP_CACHE = `${CACHE_PREFIX}${VERSION}`;
+// Third-party styles and fonts, refreshed in the background whenever they are used online
+const CDN_CACHE = 'mangalunar-cdn';
+const CDN_HOSTS = ['cdn.tailwindcss.com', 'fonts.googleapis.com', 'fonts.gstatic.com'];
+// Precached on install as well, since the page that registers us has already loaded them
+const CDN_PRECACHE = [
+  'https://cdn.tailwindcss.com?plugins=forms,container-queries',
+  'https://fonts.googleapis.com/css2?family=Inter:wght@400;500;600;700&display=swap',
+  'https://fonts.googleapis.com/css2?family=Material+Symbols+Outlined:wght,FILL@100..700,0..1&display=swap',
+];
+
+const scopeUrl = (path) => new URL(path, self.registration.scope).href;
+
+self.addEventListener('install', (event) => {
+  event.waitUntil((async () => {
+    const app = await caches.open(APP_CACHE);
+    await app.addAll(PRECACHE.map(scopeUrl));
+    // The CDN may be unreachable (or blocked); the app still works without its styles cached
+    const cdn = await caches.open(CDN_CACHE);
+    await Promise.all(CDN_PRECACHE.map(url =>
+      fetch(url, { mode: 'no-cors' }).then(response => cdn.put(url, response)).catch(() => undefined)));
+    await self.skipWaiting();
+  })());
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil((async () => {
+    const names = await caches.keys();
+    await Promise.all(names
+      .filter(name => name.startsWith(CACHE_PREFIX) && name !== APP_CACHE)
+      .map(name => caches.delete(name)));
+    await self.clients.claim();
+  })());
+});
+
+// Pages try the network first so a new deploy shows up at once, then fall back to the cached shell
+const handleNavigation = async (request) => {
+  try {
+    return await fetch(request);
+  } catch {
+    const cache = await caches.open(APP_CACHE);
+    return (await cache.match(scopeUrl('index.html'))) ?? Response.error();
+  }
+};
+
+// Built files have hashed names, so a cached copy never goes stale
+const handleAsset = async (request) => {
+  const cached = await caches.match(request, { ignoreSearch: true });
+  if (cached) return cached;
+  const response = await fetch(request);
+  if (response.ok) {
+    const cache = await caches.open(APP_CACHE);
+    cache.put(request, response.clone());
+  }
+  return response;
+};
+
+const handleCdn = async (request) => {
+  const cache = await caches.open(CDN_CACHE);
+  const cached = await cache.match(request);
+  const refresh = fetch(request)
+    .then((response) => {
+      if (response.ok || response.type === 'opaque') cache.put(request, response.clone());
+      return response;
+    });
+  if (cached) {
+    refresh.catch(() => undefined);
+    return cached;
+  }
+  return refresh;
+};
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+  const url = new URL(request.url);
+
+  if (url.origin === self.location.origin) {
+    // Everything on our own origin is the app itself
+    event.respondWith(request.mode === 'navigate' ? handleNavigation(request) : handleAsset(request));
+  } else if (CDN_HOSTS.includes(url.hostname)) {
+    event.respondWith(handleCdn(request));
+  }
+  // Model downloads are left alone: transformers.js keeps its own cache of them
+});
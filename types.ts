@@ -1,19 +1,226 @@
 export interface MangaItem {
   id: string;
   title: string;
-  coverUrl: string;
-  pages: string[]; // Blob URLs
+  pageCount: number;
+  pages: PageProvider;
+  metadata?: MangaMetadata;
+  lastReadPage?: number;
+  bookmarks?: Bookmark[];
+  readerSettings?: ReaderSettings;
+  ocr?: PageOcr[]; // Stored page analyses
+  chapters?: Chapter[];
+}
+
+// Where a chapter begins inside a title; it runs until the next one starts
+export interface Chapter {
+  title: string;
+  startPage: number; // 0-based page index
+}
+
+// Hands out object URLs for pages, decoding them lazily. URLs stay valid until evicted or released.
+export interface PageProvider {
+  pageCount: number;
+  getPageUrl: (index: number) => Promise<string>;
+  getCachedUrl: (index: number) => string | undefined;
+  getPageBlob: (index: number) => Promise<Blob>; // The page as loaded, bypassing the URL cache
+  getCrop?: (index: number) => PageCrop | undefined; // Set for processed pages that were trimmed
+  prefetch: (index: number) => void; // Warm the pages around an index
+  release: () => void;
+}
+
+// An opened import, before (and while) it is saved to the library. Pages are decoded on demand.
+export interface MangaSource {
+  title: string;
+  metadata?: MangaMetadata;
+  pageNames: string[]; // Paths inside the archive or folder, in reading order
+  chapters?: Chapter[]; // See utils/chapters.ts
+  ignoredNames?: string[]; // OS and thumbnail-cache images that were left out
+  getPage: (index: number) => Promise<Blob>;
+  close: () => Promise<void>;
 }
 
-export type ViewMode = 'library' | 'reader';
+export type ViewMode = 'library' | 'reader' | 'settings' | 'deck';
 
 export interface LibraryItem {
   id: string;
   title: string;
   coverUrl: string;
+  pageCount?: number;
+  sizeBytes?: number;
+  addedAt?: number; // epoch ms
+  metadata?: MangaMetadata;
+  lastReadPage?: number;
+  lastReadAt?: number; // epoch ms
+  bookmarks?: Bookmark[];
+  readerSettings?: ReaderSettings;
+  tags?: string[];
+  collectionIds?: string[]; // Shelves this title is on, see AppSettings.collections
+  coverPage?: number; // Page shown as the cover; defaults to the first
+  chapters?: Chapter[];
   isDemo?: boolean;
 }
 
+export type LibrarySort = 'title' | 'added' | 'lastRead' | 'progress';
+
+// A user-named shelf. Titles refer to it by id so renaming one doesn't touch every title.
+export interface LibraryCollection {
+  id: string;
+  name: string;
+}
+
+export type ReadingDirection = 'ltr' | 'rtl';
+
+export type PageLayout = 'single' | 'double' | 'vertical'; // 'vertical' is continuous webtoon scroll
+
+export type OcrProviderId = 'local' | 'gemini' | 'mock';
+
+// App-wide preferences; per-title choices live in ReaderSettings
+export interface AppSettings {
+  ocrProviders: OcrProviderId[]; // Tried in order, each one a fallback for the one before
+  translationLanguage: string; // ISO 639-1 code recognized text is translated into
+  collections: LibraryCollection[];
+  librarySort: LibrarySort;
+  input: InputSettings;
+}
+
+// Reader commands that keys, gamepad buttons and tap zones can trigger; see utils/inputBindings.ts.
+// 'pageLeft' and 'pageRight' follow the screen, so they swap meaning in right-to-left reading.
+export type InputAction =
+  | 'nextPage' | 'previousPage' | 'pageLeft' | 'pageRight' | 'firstPage' | 'lastPage'
+  | 'nextChapter' | 'previousChapter' | 'toggleMenu' | 'toggleOcrMode' | 'toggleFullscreen'
+  | 'toggleBookmark' | 'showBookmarks' | 'close' | 'none';
+
+export type TapZone = 'left' | 'center' | 'right';
+
+export interface InputSettings {
+  keys: Partial<Record<InputAction, string[]>>; // KeyboardEvent.key values, letters lowercased
+  gamepadButtons: Partial<Record<InputAction, number[]>>; // Button indices of the standard gamepad layout
+  tapZones: Record<TapZone, InputAction>;
+  swipe: boolean; // Horizontal swipes turn pages in the paginated layouts
+}
+
+export const DEFAULT_INPUT_SETTINGS: InputSettings = {
+  keys: {
+    nextPage: [' ', 'PageDown'],
+    previousPage: ['PageUp'],
+    pageLeft: ['ArrowLeft'],
+    pageRight: ['ArrowRight'],
+    firstPage: ['Home'],
+    lastPage: ['End'],
+    nextChapter: [']'],
+    previousChapter: ['['],
+    toggleMenu: ['m'],
+    toggleOcrMode: ['o'],
+    toggleFullscreen: ['f'],
+    toggleBookmark: ['b'],
+    close: ['Escape'],
+  },
+  gamepadButtons: {
+    nextPage: [0],
+    previousPage: [1],
+    pageLeft: [14],
+    pageRight: [15],
+    previousChapter: [4],
+    nextChapter: [5],
+    toggleBookmark: [3],
+    toggleMenu: [9],
+  },
+  tapZones: { left: 'pageLeft', center: 'toggleMenu', right: 'pageRight' },
+  swipe: true,
+};
+
+export const DEFAULT_APP_SETTINGS: AppSettings = {
+  ocrProviders: ['local'],
+  translationLanguage: 'en',
+  collections: [],
+  librarySort: 'added',
+  input: DEFAULT_INPUT_SETTINGS,
+};
+
+// A backup export or import that was still running when the tab closed; see utils/backup.ts
+export interface BackupJob {
+  kind: 'export' | 'import';
+  startedAt: number; // epoch ms
+  fileName?: string; // The backup being imported, so the user can be asked for it again
+  done: string[]; // Content hashes of the titles already handled
+  total: number; // Titles in the library (export) or the backup (import)
+  // Export only: the OCR file each title in `done` was packed with, so a resumed export reuses it
+  packedOcr?: Record<string, Blob | null>;
+}
+
+// Keys of the model registry in utils/ocr.ts
+export type OcrModelId = 'trocr-printed' | 'manga-ocr';
+
+export interface ReaderSettings {
+  direction: ReadingDirection;
+  layout: PageLayout;
+  coverOffset: boolean; // Show the first page alone in two-page mode
+  ocrModel?: OcrModelId; // Unset picks a model from the title's language
+  image?: ImageAdjustments; // Unset shows pages as stored
+}
+
+export type PageColorMode = 'normal' | 'grayscale' | 'sepia' | 'night';
+
+// Applied to each page before it is shown; see utils/imageProcessing.ts
+export interface ImageAdjustments {
+  trimMargins: boolean; // Crop uniform borders around the artwork
+  brightness: number; // Multipliers, 1 leaves the page as is
+  contrast: number;
+  gamma: number;
+  colorMode: PageColorMode;
+  upscale: boolean; // Run low-resolution pages through a super-resolution model
+}
+
+export const DEFAULT_IMAGE_ADJUSTMENTS: ImageAdjustments = {
+  trimMargins: false,
+  brightness: 1,
+  contrast: 1,
+  gamma: 1,
+  colorMode: 'normal',
+  upscale: false,
+};
+
+// The part of the stored page that is still shown after trimming, as fractions of its size
+export interface PageCrop {
+  top: number;
+  left: number;
+  bottom: number;
+  right: number;
+}
+
+export const DEFAULT_READER_SETTINGS: ReaderSettings = {
+  direction: 'ltr',
+  layout: 'single',
+  coverOffset: true,
+};
+
+// From ComicInfo.xml / EPUB metadata, falling back to what the filename tells us
+export interface MangaMetadata {
+  series?: string;
+  volume?: number;
+  chapter?: number;
+  writer?: string;
+  language?: string; // ISO 639 code, e.g. 'ja'
+  readingDirection?: ReadingDirection;
+  summary?: string;
+}
+
+export interface Bookmark {
+  id: string;
+  page: number; // 0-based page index
+  name: string;
+  createdAt: number; // epoch ms
+}
+
+export type ReadingStatus = 'unread' | 'reading' | 'finished';
+
+export interface StorageUsage {
+  libraryBytes: number; // bytes taken by stored pages
+  usage?: number; // origin-wide, from navigator.storage.estimate()
+  quota?: number;
+  persisted?: boolean;
+}
+
 export interface SpeechBubble {
   text: string;
   box_2d: [number, number, number, number]; // ymin, xmin, ymax, xmax (0-1000 scale)
@@ -26,4 +233,36 @@ export interface PageAnalysis {
 
 export interface OCRCache {
   [pageIndex: number]: PageAnalysis;
-}
\ No newline at end of file
+}
+
+// OCR output kept with the library, one record per analyzed page
+export interface PageOcr {
+  mangaId: string;
+  index: number;
+  bubbles: SpeechBubble[];
+  source: string; // Provider and model that produced it; results from any other setup are redone
+  analyzedAt: number;
+}
+
+// Translations of a page's bubbles, in the same order as PageAnalysis.bubbles
+export interface PageTranslation {
+  texts: string[];
+  status: 'loading' | 'complete' | 'error';
+}
+
+export interface TranslationCache {
+  [pageIndex: number]: PageTranslation;
+}
+
+// A sentence saved from the reader for study
+export interface DeckCard {
+  id: string;
+  sentence: string;
+  word?: string; // The part of the sentence being learned
+  translation?: string;
+  image?: Blob; // The bubble as it appears on the page
+  mangaId: string;
+  mangaTitle: string;
+  page: number;
+  createdAt: number;
+}
@@ -0,0 +1,38 @@
+import { Archive } from 'libarchive.js';
+import { ArchiveSource, asImageBlob, partitionPageNames } from './fileUtils';
+import { COMIC_INFO_NAME } from './metadata';
+
+Archive.init({
+  getWorker: () => new Worker(new URL('./libarchiveWorker.ts', import.meta.url), { type: 'module' }),
+});
+
+// RAR (v4/v5) and 7z go through libarchive compiled to WASM, which runs in its own worker.
+// The worker stays alive until close() so single entries can be pulled out on demand.
+export const openArchiveSource = async (file: File): Promise<ArchiveSource> => {
+  const archive = await Archive.open(file);
+  try {
+    if (await archive.hasEncryptedData()) {
+      throw new Error("Password-protected archives are not supported.");
+    }
+    const entries: { file: { name: string }; path: string }[] = await archive.getFilesArray();
+    const allNames = entries.map(entry => `${entry.path}${entry.file.name}`);
+    const { pageNames, ignoredNames } = partitionPageNames(allNames);
+
+    const comicInfoName = allNames.find(name => COMIC_INFO_NAME.test(name));
+    const comicInfo = comicInfoName ? await (await archive.extractSingleFile(comicInfoName)).text() : undefined;
+
+    return {
+      pageNames,
+      comicInfo,
+      ignoredNames,
+      getPage: async (index) => {
+        const name = pageNames[index];
+        return asImageBlob(await archive.extractSingleFile(name), name);
+      },
+      close: () => archive.close(),
+    };
+  } catch (error) {
+    await archive.close();
+    throw error;
+  }
+};
@@ -0,0 +1,297 @@
+import { AppSettings, BackupJob, Bookmark, DeckCard, MangaSource, PageOcr } from '../types';
+import {
+  TitleRecord, addManga, deleteManga, getPageBlob, loadBackupJob, loadDeck, loadPageOcr, loadSettings,
+  loadTitleRecords, saveBackupJob, saveDeckCard, savePageOcr, saveSettings, storeMangaPages, updateTitleRecord,
+} from './storage';
+import { asImageBlob } from './fileUtils';
+import { indexPageOcr } from './search';
+import { TarEntry, createTar, readTar } from './tarArchive';
+
+// Whole-library backups: one tar holding a manifest.json plus every page, OCR result and deck image.
+//
+// Titles are matched across devices by a hash of their pages, so restoring a backup into a library
+// that already has some of its titles merges them instead of adding copies. Both directions can be
+// resumed: hashes are saved as they are worked out, an export picked up again reuses what it packed
+// for the titles it already finished, and an import skips straight past the titles it already
+// restored, since those now match.
+
+export const BACKUP_FORMAT = 'mangalunar-backup';
+// Bump when the manifest changes shape; older versions stay readable
+export const BACKUP_VERSION = 1;
+
+const MANIFEST_PATH = 'manifest.json';
+
+interface BackupTitle {
+  hash: string;
+  record: TitleRecord;
+  pages: string[]; // Archive paths, in page order
+  ocr?: string; // Archive path of the title's PageOcr records
+}
+
+type BackupCard = Omit<DeckCard, 'image'> & { image?: string }; // Archive path of the image
+
+interface BackupManifest {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  createdAt: number; // epoch ms
+  settings: AppSettings;
+  titles: BackupTitle[];
+  deck: BackupCard[];
+}
+
+export interface BackupProgress {
+  label: string;
+  done: number;
+  total: number;
+}
+
+export interface BackupImportSummary {
+  added: number;
+  merged: number;
+  cards: number;
+}
+
+type ProgressCallback = (progress: BackupProgress) => void;
+
+const toHex = (buffer: ArrayBuffer) =>
+  Array.from(new Uint8Array(buffer), byte => byte.toString(16).padStart(2, '0')).join('');
+
+// 'image/jpeg' -> 'jpeg'; asImageBlob maps it back when the backup is read
+const extensionOf = (blob: Blob) => blob.type.startsWith('image/') ? blob.type.slice('image/'.length) : 'bin';
+
+// SHA-256 over the SHA-256 of each page, reading one page at a time
+const hashTitle = async ({ id, title, pageCount = 0 }: TitleRecord): Promise<string> => {
+  const digests = new Uint8Array(32 * pageCount);
+  for (let index = 0; index < pageCount; index++) {
+    const blob = await getPageBlob(id, index);
+    if (!blob) throw new Error(`Page ${index + 1} of "${title}" is missing.`);
+    digests.set(new Uint8Array(await crypto.subtle.digest('SHA-256', await blob.arrayBuffer())), index * 32);
+  }
+  return toHex(await crypto.subtle.digest('SHA-256', digests));
+};
+
+// Fills in missing hashes, saving each one right away so an interrupted run doesn't redo it
+const ensureContentHashes = async (records: TitleRecord[], onProgress: ProgressCallback) => {
+  const missing = records.filter(record => !record.contentHash);
+  for (let i = 0; i < missing.length; i++) {
+    onProgress({ label: `Fingerprinting "${missing[i].title}"`, done: i, total: missing.length });
+    missing[i].contentHash = await hashTitle(missing[i]);
+    await updateTitleRecord(missing[i].id, { contentHash: missing[i].contentHash });
+  }
+};
+
+// Picks up an unfinished job of the same kind (and, for imports, the same file) or starts a new one
+const startJob = async (kind: BackupJob['kind'], total: number, fileName?: string): Promise<BackupJob> => {
+  const previous = await loadBackupJob();
+  const job: BackupJob = previous?.kind === kind && previous.fileName === fileName
+    ? { ...previous, total }
+    : { kind, startedAt: Date.now(), fileName, done: [], total };
+  await saveBackupJob(job);
+  return job;
+};
+
+const markDone = async (job: BackupJob, hash: string) => {
+  if (!job.done.includes(hash)) job.done.push(hash);
+  await saveBackupJob(job);
+};
+
+// A title's recognized text as it goes into the archive, or null when it has none
+const packOcr = async (id: string): Promise<Blob | null> => {
+  const ocr = await loadPageOcr(id);
+  return ocr.length > 0 ? new Blob([JSON.stringify(ocr)], { type: 'application/json' }) : null;
+};
+
+export const exportLibraryBackup = async (onProgress: ProgressCallback): Promise<Blob> => {
+  const records = (await loadTitleRecords()).sort((a, b) => (a.addedAt ?? 0) - (b.addedAt ?? 0));
+  const job = await startJob('export', records.length);
+  const entries: TarEntry[] = [];
+  const titles: BackupTitle[] = [];
+
+  for (let i = 0; i < records.length; i++) {
+    const record = records[i];
+    const packed = record.contentHash && job.done.includes(record.contentHash)
+      ? job.packedOcr?.[record.contentHash]
+      : undefined;
+    onProgress({ label: `${packed === undefined ? 'Packing' : 'Reusing'} "${record.title}"`, done: i, total: records.length });
+    if (!record.contentHash) {
+      record.contentHash = await hashTitle(record);
+      await updateTitleRecord(record.id, { contentHash: record.contentHash });
+    }
+
+    // The entries only reference the stored blobs; nothing is read until the archive is saved
+    const pages: string[] = [];
+    for (let index = 0; index < (record.pageCount ?? 0); index++) {
+      const blob = await getPageBlob(record.id, index);
+      if (!blob) throw new Error(`Page ${index + 1} of "${record.title}" is missing.`);
+      const path = `titles/${record.id}/${String(index + 1).padStart(4, '0')}.${extensionOf(blob)}`;
+      entries.push({ name: path, data: blob });
+      pages.push(path);
+    }
+    const title: BackupTitle = { hash: record.contentHash, record, pages };
+    const ocr = packed === undefined ? await packOcr(record.id) : packed;
+    if (ocr) {
+      title.ocr = `titles/${record.id}/ocr.json`;
+      entries.push({ name: title.ocr, data: ocr });
+    }
+    titles.push(title);
+    if (packed === undefined) {
+      job.packedOcr = { ...job.packedOcr, [record.contentHash]: ocr };
+      await markDone(job, record.contentHash);
+    }
+  }
+
+  const deck = (await loadDeck()).map(({ image, ...card }): BackupCard => {
+    if (!image) return card;
+    const path = `deck/${card.id}.${extensionOf(image)}`;
+    entries.push({ name: path, data: image });
+    return { ...card, image: path };
+  });
+
+  const manifest: BackupManifest = {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    createdAt: Date.now(),
+    settings: await loadSettings(),
+    titles,
+    deck,
+  };
+  const archive = createTar([
+    { name: MANIFEST_PATH, data: new Blob([JSON.stringify(manifest)], { type: 'application/json' }) },
+    ...entries,
+  ]);
+  onProgress({ label: 'Done', done: records.length, total: records.length });
+  await saveBackupJob(null);
+  return archive;
+};
+
+// --- Import ---
+
+const union = <T>(a: T[] = [], b: T[] = []) => Array.from(new Set([...a, ...b]));
+
+// Bookmarks are matched by id, and by page and name for ones made separately on each device
+const mergeBookmarks = (local: Bookmark[] = [], backup: Bookmark[] = []) => [
+  ...local,
+  ...backup.filter(bookmark => !local.some(other =>
+    other.id === bookmark.id || (other.page === bookmark.page && other.name === bookmark.name))),
+].sort((a, b) => a.page - b.page);
+
+// The local title wins on anything the user chose deliberately; the backup fills gaps, adds
+// bookmarks and shelves, and brings reading progress forward when it was read more recently
+const mergeTitleRecords = (local: TitleRecord, backup: TitleRecord): Partial<TitleRecord> => {
+  const backupReadLater = (backup.lastReadAt ?? 0) > (local.lastReadAt ?? 0);
+  return {
+    lastReadPage: backupReadLater ? backup.lastReadPage : local.lastReadPage,
+    lastReadAt: backupReadLater ? backup.lastReadAt : local.lastReadAt,
+    bookmarks: mergeBookmarks(local.bookmarks, backup.bookmarks),
+    tags: union(local.tags, backup.tags),
+    collectionIds: union(local.collectionIds, backup.collectionIds),
+    metadata: local.metadata || backup.metadata ? { ...backup.metadata, ...local.metadata } : undefined,
+    readerSettings: local.readerSettings ?? backup.readerSettings,
+    coverPage: local.coverPage ?? backup.coverPage,
+    chapters: local.chapters?.length ? local.chapters : backup.chapters,
+    addedAt: local.addedAt && backup.addedAt ? Math.min(local.addedAt, backup.addedAt) : local.addedAt ?? backup.addedAt,
+  };
+};
+
+// Pages analysed on only one side are kept; where both have a result, the newer one
+const mergePageOcr = async (mangaId: string, records: PageOcr[]) => {
+  const local = new Map((await loadPageOcr(mangaId)).map(record => [record.index, record]));
+  for (const record of records) {
+    const existing = local.get(record.index);
+    if (existing && existing.analyzedAt >= record.analyzedAt) continue;
+    const restored = { ...record, mangaId };
+    await savePageOcr(restored);
+    indexPageOcr(restored);
+  }
+};
+
+// Written like any other import, so a restore cut short is cleaned up the same way
+const restoreTitle = async (title: BackupTitle, read: (path: string) => Blob): Promise<string> => {
+  const source: MangaSource = {
+    title: title.record.title,
+    metadata: title.record.metadata,
+    pageNames: title.pages,
+    getPage: async (index) => asImageBlob(read(title.pages[index]), title.pages[index]),
+    close: async () => undefined,
+  };
+  const item = await addManga(source);
+  URL.revokeObjectURL(item.coverUrl);
+  try {
+    await storeMangaPages(item.id, source);
+    const { id, pageCount, sizeBytes, ...rest } = title.record;
+    await updateTitleRecord(item.id, { ...rest, contentHash: title.hash });
+  } catch (error) {
+    await deleteManga(item.id).catch(() => undefined);
+    throw error;
+  }
+  return item.id;
+};
+
+export const importLibraryBackup = async (file: File, onProgress: ProgressCallback): Promise<BackupImportSummary> => {
+  onProgress({ label: 'Reading backup', done: 0, total: 1 });
+  const entries = await readTar(file);
+  const manifestEntry = entries.get(MANIFEST_PATH);
+  if (!manifestEntry) throw new Error("This file is not a Mangalunar backup.");
+  const manifest: BackupManifest = JSON.parse(await manifestEntry.text());
+  if (manifest.format !== BACKUP_FORMAT) throw new Error("This file is not a Mangalunar backup.");
+  if (manifest.version > BACKUP_VERSION) throw new Error("This backup was made by a newer version of Mangalunar.");
+  const read = (path: string) => {
+    const blob = entries.get(path);
+    if (!blob) throw new Error(`The backup is missing ${path}.`);
+    return blob;
+  };
+
+  const job = await startJob('import', manifest.titles.length, file.name);
+  const records = await loadTitleRecords();
+  const wasEmpty = records.length === 0;
+  await ensureContentHashes(records, onProgress);
+  const byHash = new Map(records.map(record => [record.contentHash!, record]));
+  // Backup title ids to the ids they ended up with here, for the deck cards that point at them
+  const ids = new Map<string, string>();
+  const summary: BackupImportSummary = { added: 0, merged: 0, cards: 0 };
+
+  for (let i = 0; i < manifest.titles.length; i++) {
+    const title = manifest.titles[i];
+    onProgress({ label: `Restoring "${title.record.title}"`, done: i, total: manifest.titles.length });
+    const ocr: PageOcr[] = title.ocr ? JSON.parse(await read(title.ocr).text()) : [];
+    const local = byHash.get(title.hash);
+    if (local) {
+      const patch = mergeTitleRecords(local, title.record);
+      await updateTitleRecord(local.id, patch);
+      Object.assign(local, patch);
+      await mergePageOcr(local.id, ocr);
+      ids.set(title.record.id, local.id);
+      summary.merged++;
+    } else {
+      const id = await restoreTitle(title, read);
+      await mergePageOcr(id, ocr);
+      ids.set(title.record.id, id);
+      byHash.set(title.hash, { ...title.record, id });
+      summary.added++;
+    }
+    await markDone(job, title.hash);
+  }
+
+  onProgress({ label: 'Restoring deck', done: manifest.titles.length, total: manifest.titles.length });
+  const existingCards = new Set((await loadDeck()).map(card => card.id));
+  for (const { image, ...card } of manifest.deck) {
+    if (existingCards.has(card.id)) continue;
+    await saveDeckCard({
+      ...card,
+      mangaId: ids.get(card.mangaId) ?? card.mangaId,
+      image: image ? asImageBlob(read(image), image) : undefined,
+    });
+    summary.cards++;
+  }
+
+  // Shelves are always merged; other preferences only come across onto a fresh install
+  const settings = await loadSettings();
+  const collections = [
+    ...settings.collections,
+    ...manifest.settings.collections.filter(collection => !settings.collections.some(other => other.id === collection.id)),
+  ];
+  await saveSettings(wasEmpty ? { ...settings, ...manifest.settings, collections } : { ...settings, collections });
+
+  await saveBackupJob(null);
+  return summary;
+};
@@ -0,0 +1,59 @@
+import { Chapter } from '../types';
+import { CHAPTER_PATTERN } from './metadata';
+
+// Chapter boundaries inside one archive, from the most deliberate source available:
+// ComicInfo.xml page bookmarks, then the folders the pages sit in, then chapter numbers in the
+// page filenames. A title without at least two chapters has no table of contents.
+
+// ComicRack and most taggers mark chapter starts as <Page Image="12" Bookmark="Chapter 2" />
+const fromComicInfo = (xml: string, pageCount: number): Chapter[] => {
+  const doc = new DOMParser().parseFromString(xml, 'application/xml');
+  if (doc.querySelector('parsererror')) return [];
+  return Array.from(doc.querySelectorAll('ComicInfo > Pages > Page[Bookmark]'))
+    .map(page => ({
+      title: page.getAttribute('Bookmark')!.trim(),
+      startPage: Number(page.getAttribute('Image')),
+    }))
+    .filter(chapter => chapter.title && Number.isInteger(chapter.startPage) && chapter.startPage >= 0 && chapter.startPage < pageCount);
+};
+
+const directoryOf = (path: string) => path.slice(0, Math.max(path.lastIndexOf('/'), 0));
+const basename = (path: string) => path.slice(path.lastIndexOf('/') + 1);
+
+// A new chapter wherever the key changes from one page to the next
+const runs = (pageNames: string[], keyOf: (name: string) => string | undefined, titleOf: (key: string) => string): Chapter[] => {
+  const chapters: Chapter[] = [];
+  let previous: string | undefined;
+  pageNames.forEach((name, index) => {
+    const key = keyOf(name);
+    if (key === undefined || key === previous) return;
+    chapters.push({ title: titleOf(key), startPage: index });
+    previous = key;
+  });
+  return chapters;
+};
+
+const fromDirectories = (pageNames: string[]) =>
+  runs(pageNames, directoryOf, directory => basename(directory).replace(/_/g, ' ').trim() || 'Other pages');
+
+const fromFilenames = (pageNames: string[]) =>
+  runs(pageNames, name => basename(name).replace(/_/g, ' ').match(CHAPTER_PATTERN)?.[1], number => `Chapter ${parseFloat(number)}`);
+
+export const detectChapters = (pageNames: string[], comicInfo?: string): Chapter[] => {
+  const candidates = [
+    comicInfo ? fromComicInfo(comicInfo, pageNames.length) : [],
+    fromDirectories(pageNames),
+    fromFilenames(pageNames),
+  ];
+  const chapters = candidates.find(found => found.length > 1) ?? [];
+  return chapters.sort((a, b) => a.startPage - b.startPage);
+};
+
+// Index of the chapter a page belongs to, or -1 before the first one starts
+export const findChapterIndex = (chapters: Chapter[], page: number) => {
+  let found = -1;
+  chapters.forEach((chapter, index) => {
+    if (chapter.startPage <= page) found = index;
+  });
+  return found;
+};
@@ -0,0 +1,189 @@
+import JSZip from 'jszip';
+import { DeckCard } from '../types';
+
+// Flashcard export. The TSV zip works with any spreadsheet or Anki's text import; the .apkg is a
+// ready-made Anki package (a SQLite collection plus numbered media files, built with sql.js).
+
+const DECK_NAME = 'MangaLunar';
+const FIELD_SEPARATOR = '\x1f';
+
+const imageExtension = (blob: Blob) => {
+  const subtype = blob.type.split('/')[1];
+  return subtype === 'jpeg' ? 'jpg' : subtype || 'png';
+};
+
+const mediaName = (card: DeckCard) => card.image ? `mangalunar-${card.id}.${imageExtension(card.image)}` : '';
+
+const sourceLabel = (card: DeckCard) => `${card.mangaTitle} p. ${card.page + 1}`;
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// Tabs and newlines would break the row layout
+const tsvField = (text: string) => text.replace(/[\t\r\n]+/g, ' ');
+
+export const exportDeckAsTsvZip = async (cards: DeckCard[]): Promise<Blob> => {
+  const zip = new JSZip();
+  const rows = [['Sentence', 'Word', 'Translation', 'Image', 'Source']];
+  for (const card of cards) {
+    const name = mediaName(card);
+    if (card.image) zip.file(`media/${name}`, card.image);
+    rows.push([
+      card.sentence,
+      card.word ?? '',
+      card.translation ?? '',
+      name ? `<img src="${name}">` : '',
+      sourceLabel(card),
+    ].map(tsvField));
+  }
+  zip.file('deck.tsv', rows.map(row => row.join('\t')).join('\n'));
+  zip.file('README.txt', 'Import deck.tsv into Anki as tab-separated text with HTML allowed, '
+    + 'then copy the files in media/ into your Anki collection.media folder.\n');
+  return zip.generateAsync({ type: 'blob' });
+};
+
+// --- Anki package ---
+
+const ANKI_SCHEMA = `
+CREATE TABLE col (id integer primary key, crt integer not null, mod integer not null, scm integer not null,
+  ver integer not null, dty integer not null, usn integer not null, ls integer not null, conf text not null,
+  models text not null, decks text not null, dconf text not null, tags text not null);
+CREATE TABLE notes (id integer primary key, guid text not null, mid integer not null, mod integer not null,
+  usn integer not null, tags text not null, flds text not null, sfld integer not null, csum integer not null,
+  flags integer not null, data text not null);
+CREATE TABLE cards (id integer primary key, nid integer not null, did integer not null, ord integer not null,
+  mod integer not null, usn integer not null, type integer not null, queue integer not null, due integer not null,
+  ivl integer not null, factor integer not null, reps integer not null, lapses integer not null, left integer not null,
+  odue integer not null, odid integer not null, flags integer not null, data text not null);
+CREATE TABLE revlog (id integer primary key, cid integer not null, usn integer not null, ease integer not null,
+  ivl integer not null, lastIvl integer not null, factor integer not null, time integer not null, type integer not null);
+CREATE TABLE graves (usn integer not null, oid integer not null, type integer not null);
+CREATE INDEX ix_notes_usn on notes (usn);
+CREATE INDEX ix_cards_usn on cards (usn);
+CREATE INDEX ix_revlog_usn on revlog (usn);
+CREATE INDEX ix_cards_nid on cards (nid);
+CREATE INDEX ix_cards_sched on cards (did, queue, due);
+CREATE INDEX ix_revlog_cid on revlog (cid);
+CREATE INDEX ix_notes_csum on notes (csum);
+`;
+
+// Fixed ids so re-importing an export updates the same note type and deck instead of adding copies
+const MODEL_ID = 1718000000001;
+const DECK_ID = 1718000000002;
+
+const FIELDS = ['Sentence', 'Word', 'Translation', 'Image', 'Source'];
+
+const CARD_FRONT = `<div class="sentence">{{Sentence}}</div>
+{{#Word}}<div class="word">{{Word}}</div>{{/Word}}`;
+const CARD_BACK = `{{FrontSide}}
+<hr id="answer">
+{{#Translation}}<div class="translation">{{Translation}}</div>{{/Translation}}
+<div class="image">{{Image}}</div>
+<div class="source">{{Source}}</div>`;
+const CARD_CSS = `.card { font-family: sans-serif; font-size: 22px; text-align: center; }
+.word { margin-top: 12px; font-size: 28px; font-weight: bold; }
+.translation { font-size: 18px; }
+.image img { max-width: 100%; max-height: 320px; margin-top: 12px; }
+.source { margin-top: 8px; font-size: 12px; color: #888; }`;
+
+const buildCollectionJson = (now: number) => {
+  const model = {
+    id: MODEL_ID,
+    name: `${DECK_NAME} Sentence`,
+    type: 0,
+    mod: Math.floor(now / 1000),
+    usn: -1,
+    sortf: 0,
+    did: DECK_ID,
+    tmpls: [{ name: 'Card 1', ord: 0, qfmt: CARD_FRONT, afmt: CARD_BACK, did: null, bqfmt: '', bafmt: '' }],
+    flds: FIELDS.map((name, ord) => ({ name, ord, sticky: false, rtl: false, font: 'Arial', size: 20, media: [] })),
+    css: CARD_CSS,
+    latexPre: '\\documentclass[12pt]{article}\n\\special{papersize=3in,5in}\n\\usepackage{amssymb,amsmath}\n\\pagestyle{empty}\n\\begin{document}\n',
+    latexPost: '\\end{document}',
+    tags: [],
+    vers: [],
+    req: [[0, 'any', [0]]],
+  };
+  const deck = (id: number, name: string) => ({
+    id, name, desc: '', dyn: 0, collapsed: false, conf: 1, extendNew: 0, extendRev: 0, usn: 0,
+    mod: Math.floor(now / 1000), newToday: [0, 0], revToday: [0, 0], lrnToday: [0, 0], timeToday: [0, 0],
+  });
+  const deckConfig = {
+    id: 1, name: 'Default', mod: 0, usn: 0, dyn: false, maxTaken: 60, timer: 0, autoplay: true, replayq: true,
+    new: { delays: [1, 10], ints: [1, 4, 7], initialFactor: 2500, order: 1, perDay: 20, bury: false, separate: true },
+    rev: { perDay: 200, ease4: 1.3, fuzz: 0.05, ivlFct: 1, maxIvl: 36500, bury: false, minSpace: 1 },
+    lapse: { delays: [10], mult: 0, minInt: 1, leechFails: 8, leechAction: 0 },
+  };
+  const conf = {
+    activeDecks: [1], curDeck: 1, newSpread: 0, collapseTime: 1200, timeLim: 0, estTimes: true, dueCounts: true,
+    curModel: null, nextPos: 1, sortType: 'noteFld', sortBackwards: false, addToCur: true,
+  };
+  return {
+    conf: JSON.stringify(conf),
+    models: JSON.stringify({ [MODEL_ID]: model }),
+    decks: JSON.stringify({ 1: deck(1, 'Default'), [DECK_ID]: deck(DECK_ID, DECK_NAME) }),
+    dconf: JSON.stringify({ 1: deckConfig }),
+  };
+};
+
+// Anki's duplicate check: the first 8 hex digits of the SHA-1 of the sort field, as an integer
+const fieldChecksum = async (text: string) => {
+  const digest = await crypto.subtle.digest('SHA-1', new TextEncoder().encode(text));
+  return parseInt(Array.from(new Uint8Array(digest).slice(0, 4), byte => byte.toString(16).padStart(2, '0')).join(''), 16);
+};
+
+const stripHtml = (html: string) => html.replace(/<[^>]*>/g, '');
+
+export const exportDeckAsApkg = async (cards: DeckCard[]): Promise<Blob> => {
+  const [{ default: initSqlJs }, { default: wasmUrl }] = await Promise.all([
+    import('sql.js'),
+    import('sql.js/dist/sql-wasm.wasm?url'),
+  ]);
+  const SQL = await initSqlJs({ locateFile: () => wasmUrl });
+  const db = new SQL.Database();
+  const zip = new JSZip();
+  // Media files are stored under their index and mapped back to a filename by the "media" file
+  const media: Record<string, string> = {};
+  let mediaCount = 0;
+
+  try {
+    db.exec(ANKI_SCHEMA);
+    const now = Date.now();
+    const { conf, models, decks, dconf } = buildCollectionJson(now);
+    db.run('INSERT INTO col VALUES (1, ?, ?, ?, 11, 0, 0, 0, ?, ?, ?, ?, ?)', [
+      Math.floor(now / 1000), now, now, conf, models, decks, dconf, '{}',
+    ]);
+
+    for (const [i, card] of cards.entries()) {
+      const name = mediaName(card);
+      if (card.image) {
+        const key = String(mediaCount++);
+        media[key] = name;
+        zip.file(key, card.image);
+      }
+      const fields = [
+        escapeHtml(card.sentence),
+        escapeHtml(card.word ?? ''),
+        escapeHtml(card.translation ?? ''),
+        name ? `<img src="${name}">` : '',
+        escapeHtml(sourceLabel(card)),
+      ];
+      const sortField = stripHtml(fields[0]);
+      // Ids are millisecond timestamps in Anki; re-imports are matched on the guid instead
+      const noteId = now + i;
+      db.run('INSERT INTO notes VALUES (?, ?, ?, ?, -1, ?, ?, ?, ?, 0, \'\')', [
+        noteId, `mangalunar-${card.id}`, MODEL_ID, Math.floor(now / 1000), ' manga ',
+        fields.join(FIELD_SEPARATOR), sortField, await fieldChecksum(sortField),
+      ]);
+      db.run('INSERT INTO cards VALUES (?, ?, ?, 0, ?, -1, 0, 0, ?, 0, 0, 0, 0, 0, 0, 0, 0, \'\')', [
+        noteId, noteId, DECK_ID, Math.floor(now / 1000), i + 1,
+      ]);
+    }
+
+    zip.file('collection.anki2', db.export());
+  } finally {
+    db.close();
+  }
+  zip.file('media', JSON.stringify(media));
+  return zip.generateAsync({ type: 'blob' });
+};
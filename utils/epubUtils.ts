@@ -0,0 +1,112 @@
+import JSZip from 'jszip';
+import { MangaMetadata } from '../types';
+import { ArchiveSource, isImageName, asImageBlob } from './fileUtils';
+
+export interface EpubSource extends ArchiveSource {
+  title?: string;
+  metadata: MangaMetadata;
+}
+
+const DC_NAMESPACE = 'http://purl.org/dc/elements/1.1/';
+
+// Resolves an href found in `basePath` to a path inside the archive
+const resolvePath = (basePath: string, href: string) => {
+  const url = new URL(href, `https://epub.invalid/${basePath}`);
+  return decodeURIComponent(url.pathname.slice(1));
+};
+
+const parseXml = (text: string) => new DOMParser().parseFromString(text, 'application/xml');
+
+const readText = async (zip: JSZip, path: string) => {
+  const entry = zip.file(path);
+  if (!entry) throw new Error(`Missing ${path} in EPUB.`);
+  return entry.async('text');
+};
+
+// Dublin Core fields plus the series conventions used by EPUB 3 and Calibre
+const readEpubMetadata = (opf: Document): MangaMetadata => {
+  const dc = (name: string) => opf.getElementsByTagNameNS(DC_NAMESPACE, name)[0]?.textContent?.trim() || undefined;
+  const meta = (selector: string, attribute?: string) => {
+    const el = opf.querySelector(selector);
+    return (attribute ? el?.getAttribute(attribute) : el?.textContent)?.trim() || undefined;
+  };
+  const volume = meta('meta[property="group-position"]') ?? meta('meta[name="calibre:series_index"]', 'content');
+  const direction = opf.querySelector('spine')?.getAttribute('page-progression-direction');
+
+  return {
+    series: meta('meta[property="belongs-to-collection"]') ?? meta('meta[name="calibre:series"]', 'content'),
+    volume: volume ? parseFloat(volume) || undefined : undefined,
+    writer: dc('creator'),
+    language: dc('language'),
+    readingDirection: direction === 'rtl' ? 'rtl' : direction === 'ltr' ? 'ltr' : undefined,
+    summary: dc('description'),
+  };
+};
+
+// Image references in a content document, in document order
+const findImageRefs = (doc: Document): string[] => {
+  const refs: string[] = [];
+  doc.querySelectorAll('img, image').forEach((el) => {
+    const ref = el.getAttribute('src')
+      ?? el.getAttribute('href')
+      ?? el.getAttributeNS('http://www.w3.org/1999/xlink', 'href');
+    if (ref) refs.push(ref);
+  });
+  return refs;
+};
+
+export const openEpubSource = async (file: Blob): Promise<EpubSource> => {
+  const zip = await new JSZip().loadAsync(file);
+
+  const container = parseXml(await readText(zip, 'META-INF/container.xml'));
+  const opfPath = container.querySelector('rootfile')?.getAttribute('full-path');
+  if (!opfPath) throw new Error("EPUB has no package document.");
+  const opf = parseXml(await readText(zip, opfPath));
+
+  const manifest = new Map<string, { href: string; mediaType: string }>();
+  opf.querySelectorAll('manifest > item').forEach((item) => {
+    const id = item.getAttribute('id');
+    const href = item.getAttribute('href');
+    if (id && href) {
+      manifest.set(id, { href: resolvePath(opfPath, href), mediaType: item.getAttribute('media-type') ?? '' });
+    }
+  });
+
+  // Walk the spine so pages come out in reading order, not file-name order
+  const imagePaths: string[] = [];
+  const seen = new Set<string>();
+  const addImage = (path: string) => {
+    if (!seen.has(path) && zip.file(path)) {
+      seen.add(path);
+      imagePaths.push(path);
+    }
+  };
+  for (const itemref of Array.from(opf.querySelectorAll('spine > itemref'))) {
+    const item = manifest.get(itemref.getAttribute('idref') ?? '');
+    if (!item) continue;
+    if (item.mediaType.startsWith('image/')) {
+      addImage(item.href);
+      continue;
+    }
+    const doc = parseXml(await readText(zip, item.href));
+    findImageRefs(doc).forEach(ref => addImage(resolvePath(item.href, ref)));
+  }
+
+  // Some comic EPUBs only list images in the manifest
+  if (imagePaths.length === 0) {
+    manifest.forEach(item => {
+      if (item.mediaType.startsWith('image/') || isImageName(item.href)) addImage(item.href);
+    });
+  }
+
+  return {
+    title: opf.getElementsByTagNameNS(DC_NAMESPACE, 'title')[0]?.textContent?.trim() || undefined,
+    metadata: readEpubMetadata(opf),
+    pageNames: imagePaths,
+    getPage: async (index) => {
+      const path = imagePaths[index];
+      return asImageBlob(await zip.file(path)!.async('blob'), path);
+    },
+    close: async () => undefined,
+  };
+};
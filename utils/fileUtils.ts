@@ -0,0 +1,61 @@
+// What the archive readers hand back to the importer. Pages are only decoded when asked for.
+export interface ArchiveSource {
+  pageNames: string[]; // Paths inside the archive, in reading order
+  getPage: (index: number) => Promise<Blob>;
+  comicInfo?: string; // Raw ComicInfo.xml, when the archive has one
+  ignoredNames?: string[]; // Images left out as OS or thumbnail-cache clutter, see isMetadataEntry
+  close: () => Promise<void>;
+}
+
+export const IMAGE_EXTENSION_PATTERN = /\.(jpg|jpeg|png|webp|gif|avif|bmp)$/i;
+
+export const isImageName = (name: string) => IMAGE_EXTENSION_PATTERN.test(name);
+
+// What zipping on a Mac, browsing with Windows Explorer or storing on a NAS leaves next to the pages:
+// resource forks (__MACOSX/, ._page.jpg), Finder and Explorer files, and thumbnail caches
+const METADATA_DIRECTORY_PATTERN = /(^|\/)(__MACOSX|@eaDir|\.AppleDouble|\.thumbnails?|\.Trashes|\.Spotlight-V100|\.fseventsd)\//i;
+const METADATA_FILE_PATTERN = /(^|\/)(\._[^/]*|\.DS_Store|Thumbs\.db|desktop\.ini|SYNOPHOTO_THUMB_[^/]*)$/i;
+
+export const isMetadataEntry = (path: string) =>
+  METADATA_DIRECTORY_PATTERN.test(path) || METADATA_FILE_PATTERN.test(path);
+
+// Splits an archive's image entries into pages, in reading order, and the clutter to leave out
+export const partitionPageNames = (names: string[]) => {
+  const images = names.filter(isImageName);
+  return {
+    pageNames: images.filter(name => !isMetadataEntry(name)).sort(comparePageNames),
+    ignoredNames: images.filter(isMetadataEntry),
+  };
+};
+
+// Using 'numeric' collation handles "1.jpg", "2.jpg", "10.jpg" correctly
+export const comparePageNames = (a: string, b: string) =>
+  a.localeCompare(b, undefined, { numeric: true, sensitivity: 'base' });
+
+export const stripExtension = (name: string) => name.replace(/\.[^./\\]+$/, '');
+
+const MIME_TYPES: Record<string, string> = {
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  webp: 'image/webp',
+  gif: 'image/gif',
+  avif: 'image/avif',
+  bmp: 'image/bmp',
+};
+
+// Archive readers hand back untyped blobs; tag them so they are stored and served as images
+export const asImageBlob = (data: Blob | ArrayBuffer, name: string): Blob => {
+  const extension = name.split('.').pop()?.toLowerCase() ?? '';
+  return new Blob([data], { type: MIME_TYPES[extension] ?? 'application/octet-stream' });
+};
+
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  a.click();
+  // Give the download a moment to start before the URL goes away
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
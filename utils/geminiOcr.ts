@@ -0,0 +1,90 @@
+import { SpeechBubble } from '../types';
+import { createJob } from './ocr';
+import type { OcrProvider } from './ocrProviders';
+import { normalizeOcrText } from './textNormalize';
+
+// Cloud OCR through the Gemini API. Only offered when the build was given GEMINI_API_KEY;
+// page images leave the device, so it is never part of the default provider order.
+
+const GEMINI_MODEL = 'gemini-2.5-flash';
+
+const PAGE_PROMPT = `Find every speech bubble, caption and piece of lettering on this comic page.
+Return them in reading order. For each one give its text exactly as written, and its bounding box as
+box_2d: [ymin, xmin, ymax, xmax] normalized to 0-1000.`;
+
+const CROP_PROMPT = 'Transcribe the text in this image exactly as written. Reply with the text only.';
+
+const hasApiKey = () => Boolean(process.env.API_KEY);
+
+// The SDK is only loaded once Gemini is actually used
+const getClient = async () => {
+  const { GoogleGenAI } = await import('@google/genai');
+  return new GoogleGenAI({ apiKey: process.env.API_KEY });
+};
+
+const toInlineData = async (image: Blob | Promise<Blob>) => {
+  const blob = await image;
+  const dataUrl = await new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+  return { inlineData: { mimeType: blob.type || 'image/png', data: dataUrl.slice(dataUrl.indexOf(',') + 1) } };
+};
+
+const clampBox = (box: unknown): SpeechBubble['box_2d'] | null => {
+  if (!Array.isArray(box) || box.length !== 4 || !box.every(n => typeof n === 'number')) return null;
+  const [ymin, xmin, ymax, xmax] = box.map(n => Math.min(Math.max(Math.round(n), 0), 1000));
+  return ymax > ymin && xmax > xmin ? [ymin, xmin, ymax, xmax] : null;
+};
+
+export const geminiProvider: OcrProvider = {
+  id: 'gemini',
+  name: 'Gemini (cloud)',
+  isAvailable: hasApiKey,
+
+  recognize: (image, options) => createJob(async (abortSignal) => {
+    const [ai, part] = await Promise.all([getClient(), toInlineData(image)]);
+    const response = await ai.models.generateContent({
+      model: GEMINI_MODEL,
+      contents: [{ role: 'user', parts: [part, { text: CROP_PROMPT }] }],
+      config: { abortSignal },
+    });
+    options?.onProgress?.(1);
+    return normalizeOcrText(response.text ?? '', options?.model?.language ?? 'en');
+  }),
+
+  analyzePage: (image, options) => createJob(async (abortSignal) => {
+    const [{ Type }, ai, part] = await Promise.all([import('@google/genai'), getClient(), toInlineData(image)]);
+    const response = await ai.models.generateContent({
+      model: GEMINI_MODEL,
+      contents: [{ role: 'user', parts: [part, { text: PAGE_PROMPT }] }],
+      config: {
+        abortSignal,
+        responseMimeType: 'application/json',
+        responseSchema: {
+          type: Type.ARRAY,
+          items: {
+            type: Type.OBJECT,
+            properties: {
+              text: { type: Type.STRING },
+              box_2d: { type: Type.ARRAY, items: { type: Type.NUMBER } },
+            },
+            required: ['text', 'box_2d'],
+          },
+        },
+      },
+    });
+    const raw: { text?: unknown; box_2d?: unknown }[] = JSON.parse(response.text ?? '[]');
+    options?.onProgress?.(1);
+
+    const bubbles: SpeechBubble[] = [];
+    for (const item of raw) {
+      const box = clampBox(item.box_2d);
+      const text = typeof item.text === 'string' ? normalizeOcrText(item.text, options?.model?.language ?? 'en') : '';
+      if (box && text) bubbles.push({ text, box_2d: box });
+    }
+    return bubbles;
+  }),
+};
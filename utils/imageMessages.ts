@@ -0,0 +1,11 @@
+// Message protocol between utils/imageProcessing.ts (main thread) and utils/imageWorker.ts
+
+import { ImageAdjustments, PageCrop } from '../types';
+
+export type ImageRequest =
+  | { type: 'process'; id: number; image: Blob; adjustments: ImageAdjustments }
+  | { type: 'cancel'; id: number };
+
+export type ImageResponse =
+  | { type: 'result'; id: number; image: Blob; crop: PageCrop | null }
+  | { type: 'failed'; id: number; message: string };
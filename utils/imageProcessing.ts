@@ -0,0 +1,175 @@
+import { ImageAdjustments, PageCrop, PageProvider, DEFAULT_IMAGE_ADJUSTMENTS } from '../types';
+import { ImageRequest, ImageResponse } from './imageMessages';
+import { createPageProvider } from './pageProvider';
+
+// Main-thread side of the page processing worker (utils/imageWorker.ts). The reader wraps a title's
+// pages in a processed provider, which caches its output like the plain one does.
+
+interface ProcessedPage {
+  image: Blob;
+  crop: PageCrop | null;
+}
+
+interface PendingPage {
+  resolve: (page: ProcessedPage) => void;
+  reject: (error: Error) => void;
+}
+
+let worker: Worker | null = null;
+let nextId = 1;
+const pending = new Map<number, PendingPage>();
+
+const handleMessage = (message: ImageResponse) => {
+  switch (message.type) {
+    case 'result':
+      pending.get(message.id)?.resolve({ image: message.image, crop: message.crop });
+      pending.delete(message.id);
+      break;
+    case 'failed':
+      pending.get(message.id)?.reject(new Error(message.message));
+      pending.delete(message.id);
+      break;
+  }
+};
+
+const send = (message: ImageRequest) => {
+  if (!worker) {
+    worker = new Worker(new URL('./imageWorker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (event: MessageEvent<ImageResponse>) => handleMessage(event.data);
+  }
+  worker.postMessage(message);
+};
+
+// Adjustments that leave pages exactly as stored, so the worker can be skipped altogether
+export const isIdentity = (adjustments: ImageAdjustments | undefined) =>
+  !adjustments || (Object.keys(DEFAULT_IMAGE_ADJUSTMENTS) as (keyof ImageAdjustments)[])
+    .every(key => adjustments[key] === DEFAULT_IMAGE_ADJUSTMENTS[key]);
+
+const processPage = (image: Blob, adjustments: ImageAdjustments) => {
+  const id = nextId++;
+  const promise = new Promise<ProcessedPage>((resolve, reject) => {
+    pending.set(id, { resolve, reject });
+    send({ type: 'process', id, image, adjustments });
+  });
+  const cancel = () => {
+    const page = pending.get(id);
+    if (!page) return;
+    pending.delete(id);
+    page.reject(new Error("Page processing was cancelled."));
+    send({ type: 'cancel', id });
+  };
+  return { promise, cancel };
+};
+
+// --- Persistent cache ---
+
+// Upscaling takes seconds per page, so its output is kept across sessions in Cache Storage.
+// Cheaper adjustments are simply redone, which keeps the cache from doubling the library's size.
+const CACHE_NAME = 'mangalunar-processed-pages';
+const CROP_HEADER = 'X-Page-Crop';
+
+const cacheKey = (mangaId: string, index: number, adjustments: ImageAdjustments) => {
+  const fingerprint = (Object.keys(DEFAULT_IMAGE_ADJUSTMENTS) as (keyof ImageAdjustments)[])
+    .map(key => `${key}=${adjustments[key]}`)
+    .join('&');
+  return `/processed-pages/${mangaId}/${index}?${fingerprint}`;
+};
+
+const readCache = async (key: string): Promise<ProcessedPage | null> => {
+  if (!('caches' in self)) return null;
+  const response = await (await caches.open(CACHE_NAME)).match(key);
+  if (!response) return null;
+  const crop = response.headers.get(CROP_HEADER);
+  return { image: await response.blob(), crop: crop ? JSON.parse(crop) : null };
+};
+
+const writeCache = async (key: string, page: ProcessedPage) => {
+  if (!('caches' in self)) return;
+  const headers: Record<string, string> = { 'Content-Type': page.image.type };
+  if (page.crop) headers[CROP_HEADER] = JSON.stringify(page.crop);
+  await (await caches.open(CACHE_NAME)).put(key, new Response(page.image, { headers }));
+};
+
+export const clearProcessedPages = async (mangaId: string): Promise<void> => {
+  if (!('caches' in self)) return;
+  const cache = await caches.open(CACHE_NAME);
+  const prefix = `/processed-pages/${mangaId}/`;
+  const keys = await cache.keys();
+  await Promise.all(keys
+    .filter(request => new URL(request.url).pathname.startsWith(prefix))
+    .map(request => cache.delete(request)));
+};
+
+// Serves a title's pages run through the pipeline. Releasing it cancels whatever is still queued;
+// the source provider stays owned by the caller.
+export const createProcessedPages = (
+  source: PageProvider,
+  mangaId: string,
+  adjustments: ImageAdjustments,
+): PageProvider => {
+  const crops = new Map<number, PageCrop>();
+  const cancels = new Set<() => void>();
+
+  const loadPage = async (index: number): Promise<Blob> => {
+    const key = cacheKey(mangaId, index, adjustments);
+    let page = adjustments.upscale ? await readCache(key).catch(() => null) : null;
+    if (!page) {
+      const job = processPage(await source.getPageBlob(index), adjustments);
+      cancels.add(job.cancel);
+      try {
+        page = await job.promise;
+      } finally {
+        cancels.delete(job.cancel);
+      }
+      if (adjustments.upscale) {
+        writeCache(key, page).catch(error => console.error("Failed to cache processed page", error));
+      }
+    }
+    if (page.crop) crops.set(index, page.crop);
+    return page.image;
+  };
+
+  const provider = createPageProvider(source.pageCount, loadPage);
+  return {
+    ...provider,
+    getCrop: (index) => crops.get(index),
+    release: () => {
+      cancels.forEach(cancel => cancel());
+      cancels.clear();
+      provider.release();
+    },
+  };
+};
+
+// An area as fractions of an image's width and height
+export interface ImageRegion {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Maps an area of the shown image onto the stored page it was trimmed from
+export const toPageRegion = (region: ImageRegion, crop: PageCrop | undefined): ImageRegion => {
+  if (!crop) return region;
+  const keptWidth = crop.right - crop.left;
+  const keptHeight = crop.bottom - crop.top;
+  return {
+    x: crop.left + region.x * keptWidth,
+    y: crop.top + region.y * keptHeight,
+    width: region.width * keptWidth,
+    height: region.height * keptHeight,
+  };
+};
+
+// The reverse: an area of the stored page onto the shown image, clipped to what was kept
+export const fromPageRegion = (region: ImageRegion, crop: PageCrop | undefined): ImageRegion => {
+  if (!crop) return region;
+  const keptWidth = crop.right - crop.left;
+  const keptHeight = crop.bottom - crop.top;
+  const x0 = Math.max((region.x - crop.left) / keptWidth, 0);
+  const y0 = Math.max((region.y - crop.top) / keptHeight, 0);
+  const x1 = Math.min((region.x + region.width - crop.left) / keptWidth, 1);
+  const y1 = Math.min((region.y + region.height - crop.top) / keptHeight, 1);
+  return { x: x0, y: y0, width: Math.max(x1 - x0, 0), height: Math.max(y1 - y0, 0) };
+};
@@ -0,0 +1,203 @@
+import { pipeline, RawImage } from '@huggingface/transformers';
+import './modelEnv';
+import { ImageAdjustments, PageCrop } from '../types';
+import { ImageRequest, ImageResponse } from './imageMessages';
+
+// Page processing off the main thread: trim the margins, upscale, then adjust tone and colour.
+// Requests run one at a time in arrival order; cancelled ones are dropped between stages.
+
+const scope = self as unknown as Worker;
+const post = (message: ImageResponse) => scope.postMessage(message);
+
+const UPSCALE_MODEL = 'Xenova/swin2SR-lightweight-x2-64';
+// Pages whose longer side already reaches this are sharp enough without the model
+const UPSCALE_BELOW = 1600;
+
+// How far (per channel, 0-255) a pixel may be from the border colour and still count as margin
+const MARGIN_TOLERANCE = 40;
+// Share of stray pixels a row or column may have before it counts as artwork (specks, scan dust)
+const MARGIN_NOISE = 0.01;
+// Anything that would keep less than this of either side is more likely a mostly blank page
+const MIN_KEPT = 0.5;
+const TRIM_PADDING = 4;
+
+class JobCancelledError extends Error {}
+
+interface Job {
+  request: Extract<ImageRequest, { type: 'process' }>;
+  cancelled: boolean;
+}
+
+// The model is only downloaded once upscaling is switched on
+let upscaler: Promise<any> | null = null;
+
+const loadUpscaler = () => {
+  if (!upscaler) {
+    upscaler = pipeline('image-to-image', UPSCALE_MODEL, { dtype: 'q8' });
+    upscaler.catch(() => { upscaler = null; });
+  }
+  return upscaler;
+};
+
+// Bounds of the artwork, or null when the page has no uniform border worth trimming
+const findContentBox = ({ data, width, height }: ImageData) => {
+  const pixel = (x: number, y: number) => (y * width + x) * 4;
+  const corners = [pixel(0, 0), pixel(width - 1, 0), pixel(0, height - 1), pixel(width - 1, height - 1)];
+  const background = [0, 1, 2].map(channel => corners.reduce((sum, i) => sum + data[i + channel], 0) / corners.length);
+  const isMargin = (i: number) =>
+    Math.abs(data[i] - background[0]) <= MARGIN_TOLERANCE &&
+    Math.abs(data[i + 1] - background[1]) <= MARGIN_TOLERANCE &&
+    Math.abs(data[i + 2] - background[2]) <= MARGIN_TOLERANCE;
+  // Corners that disagree mean the artwork bleeds off the page somewhere
+  if (!corners.every(isMargin)) return null;
+
+  const rowIsMargin = (y: number, from: number, to: number) => {
+    let stray = 0;
+    for (let x = from; x < to; x++) if (!isMargin(pixel(x, y))) stray++;
+    return stray <= (to - from) * MARGIN_NOISE;
+  };
+  const columnIsMargin = (x: number, from: number, to: number) => {
+    let stray = 0;
+    for (let y = from; y < to; y++) if (!isMargin(pixel(x, y))) stray++;
+    return stray <= (to - from) * MARGIN_NOISE;
+  };
+
+  let top = 0;
+  let bottom = height;
+  while (top < bottom && rowIsMargin(top, 0, width)) top++;
+  while (bottom > top && rowIsMargin(bottom - 1, 0, width)) bottom--;
+  let left = 0;
+  let right = width;
+  while (left < right && columnIsMargin(left, top, bottom)) left++;
+  while (right > left && columnIsMargin(right - 1, top, bottom)) right--;
+
+  top = Math.max(top - TRIM_PADDING, 0);
+  left = Math.max(left - TRIM_PADDING, 0);
+  bottom = Math.min(bottom + TRIM_PADDING, height);
+  right = Math.min(right + TRIM_PADDING, width);
+  if (bottom - top < height * MIN_KEPT || right - left < width * MIN_KEPT) return null;
+  if (top === 0 && left === 0 && bottom === height && right === width) return null;
+  return { x: left, y: top, width: right - left, height: bottom - top };
+};
+
+const upscale = async (image: ImageData): Promise<ImageData> => {
+  const pipe = await loadUpscaler();
+  const input = new RawImage(image.data, image.width, image.height, 4).rgb();
+  const output: RawImage = (await pipe(input)).rgba();
+  return new ImageData(new Uint8ClampedArray(output.data), output.width, output.height);
+};
+
+const isNeutral = ({ brightness, contrast, gamma, colorMode }: ImageAdjustments) =>
+  brightness === 1 && contrast === 1 && gamma === 1 && colorMode === 'normal';
+
+// Tone curve as a lookup table: gamma first, then brightness, then contrast around mid-grey
+const buildToneCurve = ({ brightness, contrast, gamma }: ImageAdjustments) => {
+  const curve = new Uint8ClampedArray(256);
+  for (let i = 0; i < 256; i++) {
+    const value = ((Math.pow(i / 255, 1 / gamma) * brightness) - 0.5) * contrast + 0.5;
+    curve[i] = Math.round(value * 255);
+  }
+  return curve;
+};
+
+const adjust = ({ data }: ImageData, adjustments: ImageAdjustments) => {
+  const curve = buildToneCurve(adjustments);
+  const { colorMode } = adjustments;
+  for (let i = 0; i < data.length; i += 4) {
+    let r = curve[data[i]];
+    let g = curve[data[i + 1]];
+    let b = curve[data[i + 2]];
+    if (colorMode === 'grayscale' || colorMode === 'night') {
+      r = g = b = 0.299 * r + 0.587 * g + 0.114 * b;
+    } else if (colorMode === 'sepia') {
+      [r, g, b] = [
+        0.393 * r + 0.769 * g + 0.189 * b,
+        0.349 * r + 0.686 * g + 0.168 * b,
+        0.272 * r + 0.534 * g + 0.131 * b,
+      ];
+    }
+    if (colorMode === 'night') {
+      r = g = b = 255 - r;
+    }
+    // Writes into a Uint8ClampedArray round and clamp on their own
+    data[i] = r;
+    data[i + 1] = g;
+    data[i + 2] = b;
+  }
+};
+
+const processPage = async (job: Job) => {
+  const { image: blob, adjustments } = job.request;
+  const checkCancelled = () => {
+    if (job.cancelled) throw new JobCancelledError();
+  };
+
+  const bitmap = await createImageBitmap(blob);
+  const { width, height } = bitmap;
+  const canvas = new OffscreenCanvas(width, height);
+  const ctx = canvas.getContext('2d', { willReadFrequently: true })!;
+  ctx.drawImage(bitmap, 0, 0);
+  bitmap.close();
+  let image = ctx.getImageData(0, 0, width, height);
+
+  let crop: PageCrop | null = null;
+  if (adjustments.trimMargins) {
+    const box = findContentBox(image);
+    if (box) {
+      image = ctx.getImageData(box.x, box.y, box.width, box.height);
+      crop = {
+        top: box.y / height,
+        left: box.x / width,
+        bottom: (box.y + box.height) / height,
+        right: (box.x + box.width) / width,
+      };
+    }
+  }
+  checkCancelled();
+
+  if (adjustments.upscale && Math.max(image.width, image.height) < UPSCALE_BELOW) {
+    image = await upscale(image);
+    checkCancelled();
+  }
+
+  if (!isNeutral(adjustments)) adjust(image, adjustments);
+
+  const output = new OffscreenCanvas(image.width, image.height);
+  output.getContext('2d')!.putImageData(image, 0, 0);
+  return { image: await output.convertToBlob({ type: 'image/webp', quality: 0.92 }), crop };
+};
+
+const jobs = new Map<number, Job>();
+let queue: Promise<void> = Promise.resolve();
+
+const run = async (job: Job) => {
+  const { id } = job.request;
+  try {
+    if (job.cancelled) return;
+    const result = await processPage(job);
+    post({ type: 'result', id, ...result });
+  } catch (error) {
+    if (!(error instanceof JobCancelledError)) {
+      post({ type: 'failed', id, message: error instanceof Error ? error.message : String(error) });
+    }
+  } finally {
+    jobs.delete(id);
+  }
+};
+
+scope.onmessage = (event: MessageEvent<ImageRequest>) => {
+  const message = event.data;
+  switch (message.type) {
+    case 'process': {
+      const job: Job = { request: message, cancelled: false };
+      jobs.set(message.id, job);
+      queue = queue.then(() => run(job));
+      break;
+    }
+    case 'cancel': {
+      const job = jobs.get(message.id);
+      if (job) job.cancelled = true;
+      break;
+    }
+  }
+};
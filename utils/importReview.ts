@@ -0,0 +1,189 @@
+import { Chapter, MangaSource } from '../types';
+
+// Checks an opened import before anything is stored: every page is decoded once to catch corrupt
+// images, hashed to find repeats, and measured to spot stray thumbnails. The names are checked for
+// orderings the natural sort may have guessed wrong. The report is shown while the pages are still
+// being checked, so a user who trusts the file can go ahead at once; the import then continues with
+// the pages they kept, in the order they chose.
+
+export interface ImportPage {
+  index: number; // Position in the source
+  name: string;
+  size: number; // bytes
+  width?: number;
+  height?: number;
+  error?: string; // Why the page could not be read or decoded
+  duplicateOf?: number; // Source index of the first page with identical bytes
+  tiny?: boolean; // Far smaller than the other pages, most likely a thumbnail
+}
+
+export interface OrderWarning {
+  message: string;
+  pages: number[]; // Source indices involved
+}
+
+export interface ImportReport {
+  pages: ImportPage[]; // Every page; only the first `checked` have been looked at
+  checked: number;
+  ignoredNames: string[];
+  orderWarnings: OrderWarning[];
+}
+
+// Pages with less than this share of the typical page's width and height count as thumbnails
+const TINY_PAGE_RATIO = 0.25;
+// Gaps are only worth reporting when a folder has a few of them, not when numbering is sparse anyway
+const MAX_REPORTED_GAPS = 3;
+
+// Pages that should stay out unless the user says otherwise
+export const isFlaggedPage = (page: ImportPage) =>
+  page.error !== undefined || page.duplicateOf !== undefined || !!page.tiny;
+
+const toHex = (buffer: ArrayBuffer) =>
+  Array.from(new Uint8Array(buffer), byte => byte.toString(16).padStart(2, '0')).join('');
+
+const inspectPage = async (source: MangaSource, index: number): Promise<ImportPage & { hash?: string }> => {
+  const name = source.pageNames[index];
+  let blob: Blob;
+  try {
+    blob = await source.getPage(index);
+  } catch (error) {
+    return { index, name, size: 0, error: `Could not be read: ${error instanceof Error ? error.message : String(error)}` };
+  }
+  const hash = toHex(await crypto.subtle.digest('SHA-256', await blob.arrayBuffer()));
+  try {
+    const bitmap = await createImageBitmap(blob);
+    const page = { index, name, size: blob.size, width: bitmap.width, height: bitmap.height, hash };
+    bitmap.close();
+    return page;
+  } catch {
+    return { index, name, size: blob.size, hash, error: 'Not a valid image' };
+  }
+};
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)] ?? 0;
+};
+
+const directoryOf = (path: string) => path.slice(0, Math.max(path.lastIndexOf('/'), 0));
+const basename = (path: string) => path.slice(path.lastIndexOf('/') + 1);
+
+// The last number in a file name, ignoring a letter right after it: "p012b" is page 12
+const PAGE_NUMBER_PATTERN = /(\d+)[a-z]?\D*$/i;
+
+export const findOrderWarnings = (pageNames: string[]): OrderWarning[] => {
+  const warnings: OrderWarning[] = [];
+  const folders = new Map<string, number[]>();
+  pageNames.forEach((name, index) => {
+    const folder = directoryOf(name);
+    folders.set(folder, [...(folders.get(folder) ?? []), index]);
+  });
+
+  folders.forEach((indices, folder) => {
+    const where = folder ? ` in ${folder}` : '';
+    const numbered = new Map<number, number[]>();
+    const unnumbered: number[] = [];
+    indices.forEach(index => {
+      const match = basename(pageNames[index]).replace(/\.[^.]+$/, '').match(PAGE_NUMBER_PATTERN);
+      if (!match) {
+        unnumbered.push(index);
+        return;
+      }
+      const number = parseInt(match[1], 10);
+      numbered.set(number, [...(numbered.get(number) ?? []), index]);
+    });
+    if (numbered.size === 0) return;
+
+    // "p1a", "p1b" or "p1", "p1-2": sorting by name may not match the reading order
+    numbered.forEach((shared, number) => {
+      if (shared.length < 2) return;
+      warnings.push({
+        message: `${shared.map(index => basename(pageNames[index])).join(', ')} share page number ${number}${where}; check their order`,
+        pages: shared,
+      });
+    });
+
+    if (unnumbered.length) {
+      warnings.push({
+        message: `${unnumbered.map(index => basename(pageNames[index])).join(', ')}${where}: no page number, so placed by name`,
+        pages: unnumbered,
+      });
+    }
+
+    const numbers = [...numbered.keys()].sort((a, b) => a - b);
+    const gaps: number[] = [];
+    for (let i = 1; i < numbers.length; i++) {
+      for (let missing = numbers[i - 1] + 1; missing < numbers[i]; missing++) gaps.push(missing);
+    }
+    if (gaps.length && gaps.length <= MAX_REPORTED_GAPS) {
+      warnings.push({
+        message: `No page numbered ${gaps.join(', ')}${where}; a page may be missing`,
+        pages: [],
+      });
+    }
+  });
+  return warnings;
+};
+
+// Thumbnails are judged against the pages checked so far, so early flags can still change
+const markTinyPages = (pages: ImportPage[]) => {
+  const decoded = pages.filter(page => page.width && page.height);
+  const typicalWidth = median(decoded.map(page => page.width!));
+  const typicalHeight = median(decoded.map(page => page.height!));
+  return pages.map(page => page.width && page.height
+    ? { ...page, tiny: page.width < typicalWidth * TINY_PAGE_RATIO && page.height < typicalHeight * TINY_PAGE_RATIO }
+    : page);
+};
+
+// Checks the pages one at a time, reporting straight away and again after each page.
+// Returns a function that stops the check; no report is sent after it is called.
+export const watchInspection = (source: MangaSource, onReport: (report: ImportReport) => void): () => void => {
+  let stopped = false;
+  const pages: ImportPage[] = source.pageNames.map((name, index) => ({ index, name, size: 0 }));
+  const ignoredNames = source.ignoredNames ?? [];
+  const orderWarnings = findOrderWarnings(source.pageNames);
+  const report = (checked: number) => onReport({ pages: markTinyPages(pages), checked, ignoredNames, orderWarnings });
+
+  const run = async () => {
+    const firstByHash = new Map<string, number>();
+    for (let index = 0; index < pages.length; index++) {
+      const { hash, ...page } = await inspectPage(source, index);
+      if (stopped) return;
+      if (hash) {
+        const first = firstByHash.get(hash);
+        if (first === undefined) firstByHash.set(hash, index);
+        else page.duplicateOf = first;
+      }
+      pages[index] = page;
+      report(index + 1);
+    }
+  };
+
+  report(0);
+  run().catch(error => console.error("Failed to check import", error));
+  return () => { stopped = true; };
+};
+
+// Each chapter starts at the first kept page from its old range; chapters with nothing left go
+const remapChapters = (chapters: Chapter[], order: number[]): Chapter[] => {
+  const remapped: Chapter[] = [];
+  chapters.forEach((chapter, i) => {
+    const end = chapters[i + 1]?.startPage ?? Infinity;
+    const positions = order
+      .map((index, position) => index >= chapter.startPage && index < end ? position : -1)
+      .filter(position => position !== -1);
+    if (positions.length) remapped.push({ title: chapter.title, startPage: Math.min(...positions) });
+  });
+  return remapped.sort((a, b) => a.startPage - b.startPage);
+};
+
+// The source narrowed to the chosen pages, given as source indices in their new reading order
+export const selectPages = (source: MangaSource, order: number[]): MangaSource => {
+  if (order.length === 0) throw new Error("No pages were selected for import.");
+  return {
+    ...source,
+    pageNames: order.map(index => source.pageNames[index]),
+    chapters: source.chapters && remapChapters(source.chapters, order),
+    getPage: (index) => source.getPage(order[index]),
+  };
+};
@@ -0,0 +1,138 @@
+import { MangaMetadata, MangaSource } from '../types';
+import { openZipSource } from './zipUtils';
+import { ArchiveSource, comparePageNames, isImageName, isMetadataEntry, stripExtension, asImageBlob } from './fileUtils';
+import { COMIC_INFO_NAME, mergeMetadata, parseComicInfo, parseFilenameMetadata } from './metadata';
+import { detectChapters } from './chapters';
+
+export type MangaFormat = 'zip' | 'epub' | 'rar' | '7z' | 'pdf' | 'image' | 'unknown';
+
+const startsWith = (bytes: Uint8Array, signature: number[], offset = 0) =>
+  signature.every((byte, i) => bytes[offset + i] === byte);
+
+const ascii = (text: string) => Array.from(text, c => c.charCodeAt(0));
+
+// Sniff the format from the first bytes; extensions lie (a .cbr is often really a zip)
+export const detectFormat = async (file: Blob): Promise<MangaFormat> => {
+  const bytes = new Uint8Array(await file.slice(0, 64).arrayBuffer());
+  if (startsWith(bytes, [0x50, 0x4b, 0x03, 0x04]) || startsWith(bytes, [0x50, 0x4b, 0x05, 0x06])) {
+    // EPUB requires an uncompressed "mimetype" entry first, so its content sits at a fixed offset
+    return startsWith(bytes, ascii('mimetypeapplication/epub+zip'), 30) ? 'epub' : 'zip';
+  }
+  if (startsWith(bytes, ascii('Rar!\x1a\x07'))) return 'rar';
+  if (startsWith(bytes, [0x37, 0x7a, 0xbc, 0xaf, 0x27, 0x1c])) return '7z';
+  if (startsWith(bytes, ascii('%PDF'))) return 'pdf';
+  if (
+    startsWith(bytes, [0xff, 0xd8, 0xff]) ||
+    startsWith(bytes, [0x89, 0x50, 0x4e, 0x47]) ||
+    startsWith(bytes, ascii('GIF8')) ||
+    (startsWith(bytes, ascii('RIFF')) && startsWith(bytes, ascii('WEBP'), 8)) ||
+    startsWith(bytes, ascii('BM'))
+  ) {
+    return 'image';
+  }
+  return 'unknown';
+};
+
+export const openMangaFile = async (file: File): Promise<MangaSource> => {
+  const format = await detectFormat(file);
+  let title = stripExtension(file.name);
+  let archive: ArchiveSource;
+  let embedded: MangaMetadata | undefined;
+
+  switch (format) {
+    case 'zip':
+      archive = await openZipSource(file);
+      break;
+    case 'epub': {
+      const { openEpubSource } = await import('./epubUtils');
+      const epub = await openEpubSource(file);
+      title = epub.title ?? title;
+      embedded = epub.metadata;
+      archive = epub;
+      break;
+    }
+    case 'rar':
+    case '7z': {
+      // The WASM decoder and PDF renderer are large, so they load only when needed
+      const { openArchiveSource } = await import('./archiveUtils');
+      archive = await openArchiveSource(file);
+      break;
+    }
+    case 'pdf': {
+      const { openPdfSource } = await import('./pdfUtils');
+      archive = await openPdfSource(file);
+      break;
+    }
+    case 'image':
+      return openImageFiles([file]);
+    default:
+      throw new Error(`Unsupported file format: ${file.name}`);
+  }
+
+  if (archive.pageNames.length === 0) {
+    await archive.close();
+    throw new Error("No valid images found in the archive.");
+  }
+  return {
+    title,
+    pageNames: archive.pageNames,
+    chapters: detectChapters(archive.pageNames, archive.comicInfo),
+    ignoredNames: archive.ignoredNames,
+    getPage: archive.getPage,
+    close: archive.close,
+    metadata: mergeMetadata(
+      parseFilenameMetadata(stripExtension(file.name)),
+      embedded,
+      archive.comicInfo ? parseComicInfo(archive.comicInfo) : undefined,
+    ),
+  };
+};
+
+// Loose images or a picked directory; the title comes from the folder name when there is one
+export const openImageFiles = async (files: File[]): Promise<MangaSource> => {
+  const pathOf = (file: File) => file.webkitRelativePath || file.name;
+  const allImages = files.filter(file => isImageName(file.name));
+  const images = allImages
+    .filter(file => !isMetadataEntry(pathOf(file)))
+    .sort((a, b) => comparePageNames(pathOf(a), pathOf(b)));
+  if (images.length === 0) {
+    throw new Error("No valid images found in the selection.");
+  }
+
+  const folder = images[0].webkitRelativePath.split('/')[0];
+  const title = folder || stripExtension(images[0].name);
+  const comicInfoFile = files.find(file => COMIC_INFO_NAME.test(pathOf(file)));
+  const comicInfo = comicInfoFile ? await comicInfoFile.text() : undefined;
+  const pageNames = images.map(pathOf);
+  return {
+    title,
+    pageNames,
+    chapters: detectChapters(pageNames, comicInfo),
+    ignoredNames: allImages.filter(file => isMetadataEntry(pathOf(file))).map(pathOf),
+    getPage: async (index) => {
+      const file = images[index];
+      return file.type ? file : asImageBlob(file, file.name);
+    },
+    close: async () => undefined,
+    metadata: mergeMetadata(
+      parseFilenameMetadata(title),
+      comicInfo ? parseComicInfo(comicInfo) : undefined,
+    ),
+  };
+};
+
+// Matches the library picker's accept list
+const ARCHIVE_NAME_PATTERN = /\.(zip|cbz|rar|cbr|7z|cb7|pdf|epub)$/i;
+
+// Entry point for the library's pickers: one archive, or a set of images
+export const openMangaFiles = async (files: File[]): Promise<MangaSource> => {
+  if (files.length === 1 && !isImageName(files[0].name)) {
+    return openMangaFile(files[0]);
+  }
+  // Each archive is its own title, so one picked with anything else would otherwise be dropped
+  const archives = files.filter(file => ARCHIVE_NAME_PATTERN.test(file.name));
+  if (archives.length > 0) {
+    throw new Error(`${archives.map(file => file.name).join(', ')} can't be imported together with other files. Import each archive on its own.`);
+  }
+  return openImageFiles(files);
+};
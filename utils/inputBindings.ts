@@ -0,0 +1,110 @@
+import { InputAction, TapZone } from '../types';
+
+// Actions in the order the settings screen lists them; 'none' only makes sense for tap zones
+export const INPUT_ACTIONS: { action: InputAction; label: string }[] = [
+  { action: 'nextPage', label: 'Next page' },
+  { action: 'previousPage', label: 'Previous page' },
+  { action: 'pageLeft', label: 'Page on the left' },
+  { action: 'pageRight', label: 'Page on the right' },
+  { action: 'firstPage', label: 'First page' },
+  { action: 'lastPage', label: 'Last page' },
+  { action: 'nextChapter', label: 'Next chapter' },
+  { action: 'previousChapter', label: 'Previous chapter' },
+  { action: 'toggleMenu', label: 'Show or hide controls' },
+  { action: 'toggleOcrMode', label: 'Text selection mode' },
+  { action: 'toggleFullscreen', label: 'Fullscreen' },
+  { action: 'toggleBookmark', label: 'Bookmark this page' },
+  { action: 'showBookmarks', label: 'Bookmark list' },
+  { action: 'close', label: 'Exit fullscreen or close' },
+];
+
+export const ACTION_LABELS: Record<InputAction, string> = {
+  ...Object.fromEntries(INPUT_ACTIONS.map(({ action, label }) => [action, label])) as Record<InputAction, string>,
+  none: 'Nothing',
+};
+
+// Keys that only ever start a binding capture, never get bound themselves
+const UNBINDABLE_KEYS = new Set(['Shift', 'Control', 'Alt', 'Meta', 'Tab', 'CapsLock', 'Dead', 'Unidentified']);
+
+// The name a key is stored under, or undefined for keys and chords the reader leaves to the browser
+export const keyFromEvent = (e: KeyboardEvent): string | undefined => {
+  if (e.ctrlKey || e.metaKey || e.altKey || UNBINDABLE_KEYS.has(e.key)) return undefined;
+  return e.key.length === 1 ? e.key.toLowerCase() : e.key;
+};
+
+const KEY_NAMES: Record<string, string> = {
+  ' ': 'Space',
+  ArrowLeft: '←',
+  ArrowRight: '→',
+  ArrowUp: '↑',
+  ArrowDown: '↓',
+  Escape: 'Esc',
+};
+
+export const formatKey = (key: string) => KEY_NAMES[key] ?? (key.length === 1 ? key.toUpperCase() : key);
+
+// Names of the standard gamepad layout (Xbox-style labels), by button index
+const GAMEPAD_BUTTON_NAMES = [
+  'A', 'B', 'X', 'Y', 'LB', 'RB', 'LT', 'RT', 'Back', 'Start', 'Left stick', 'Right stick',
+  'D-pad up', 'D-pad down', 'D-pad left', 'D-pad right', 'Home',
+];
+
+export const formatGamepadButton = (button: number) => GAMEPAD_BUTTON_NAMES[button] ?? `Button ${button}`;
+
+export const findBoundAction = <T>(bindings: Partial<Record<InputAction, T[]>>, input: T): InputAction | undefined =>
+  (Object.keys(bindings) as InputAction[]).find(action => bindings[action]?.includes(input));
+
+// Binds an input to one action, taking it away from whichever action had it before
+export const bindInput = <T>(bindings: Partial<Record<InputAction, T[]>>, action: InputAction, input: T) => {
+  const next: Partial<Record<InputAction, T[]>> = {};
+  (Object.keys(bindings) as InputAction[]).forEach(other => {
+    next[other] = bindings[other]!.filter(bound => bound !== input);
+  });
+  next[action] = [...(next[action] ?? []), input];
+  return next;
+};
+
+export const unbindInput = <T>(bindings: Partial<Record<InputAction, T[]>>, action: InputAction, input: T) => ({
+  ...bindings,
+  [action]: (bindings[action] ?? []).filter(bound => bound !== input),
+});
+
+// Left and right thirds of the page area; the middle third is the center zone
+export const tapZoneAt = (x: number, width: number): TapZone =>
+  x < width / 3 ? 'left' : x > (width * 2) / 3 ? 'right' : 'center';
+
+// Calls back once per button press on any connected gamepad. The Gamepad API has no button events,
+// so pads are polled every frame, and only while one is connected.
+export const watchGamepads = (onPress: (button: number) => void): (() => void) => {
+  const held = new Map<number, boolean[]>();
+  let frame: number | null = null;
+
+  const poll = () => {
+    const pads = navigator.getGamepads().filter((pad): pad is Gamepad => !!pad);
+    pads.forEach(pad => {
+      const before = held.get(pad.index) ?? [];
+      const now = pad.buttons.map(button => button.pressed);
+      now.forEach((pressed, button) => {
+        if (pressed && !before[button]) onPress(button);
+      });
+      held.set(pad.index, now);
+    });
+    frame = pads.length ? requestAnimationFrame(poll) : null;
+  };
+
+  const start = () => {
+    if (frame === null) frame = requestAnimationFrame(poll);
+  };
+  const forget = (e: GamepadEvent) => held.delete(e.gamepad.index);
+
+  window.addEventListener('gamepadconnected', start);
+  window.addEventListener('gamepaddisconnected', forget);
+  // A pad that was already connected before the reader opened fires no event
+  if (navigator.getGamepads?.().some(pad => pad)) start();
+
+  return () => {
+    window.removeEventListener('gamepadconnected', start);
+    window.removeEventListener('gamepaddisconnected', forget);
+    if (frame !== null) cancelAnimationFrame(frame);
+  };
+};
@@ -0,0 +1,2 @@
+// Bundled through Vite (rather than loaded as-is) so the WASM file the worker references gets emitted too
+import 'libarchive.js/dist/worker-bundle.js';
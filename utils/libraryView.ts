@@ -0,0 +1,45 @@
+import { LibraryItem, LibrarySort, ReadingStatus } from '../types';
+import { comparePageNames } from './fileUtils';
+import { getProgressPercent, getReadingStatus } from './progress';
+
+export interface LibraryFilter {
+  query: string; // Matched against the title and series name
+  status?: ReadingStatus;
+  tag?: string;
+  collectionId?: string;
+}
+
+export const LIBRARY_SORTS: { id: LibrarySort; label: string }[] = [
+  { id: 'added', label: 'Date added' },
+  { id: 'title', label: 'Title' },
+  { id: 'lastRead', label: 'Last read' },
+  { id: 'progress', label: 'Progress' },
+];
+
+export const filterLibrary = (items: LibraryItem[], filter: LibraryFilter): LibraryItem[] => {
+  const query = filter.query.trim().toLowerCase();
+  return items.filter(item =>
+    (!query || item.title.toLowerCase().includes(query) || !!item.metadata?.series?.toLowerCase().includes(query)) &&
+    (!filter.status || getReadingStatus(item) === filter.status) &&
+    (!filter.tag || !!item.tags?.includes(filter.tag)) &&
+    (!filter.collectionId || !!item.collectionIds?.includes(filter.collectionId))
+  );
+};
+
+// Newest first for dates and progress, alphabetical (with natural number order) for titles
+const COMPARATORS: Record<LibrarySort, (a: LibraryItem, b: LibraryItem) => number> = {
+  title: (a, b) => comparePageNames(a.title, b.title),
+  added: (a, b) => (b.addedAt ?? 0) - (a.addedAt ?? 0),
+  lastRead: (a, b) => (b.lastReadAt ?? 0) - (a.lastReadAt ?? 0),
+  progress: (a, b) => getProgressPercent(b) - getProgressPercent(a),
+};
+
+export const sortLibrary = (items: LibraryItem[], sort: LibrarySort): LibraryItem[] =>
+  [...items].sort((a, b) => COMPARATORS[sort](a, b) || comparePageNames(a.title, b.title));
+
+// Every tag in use, for the filter menu
+export const collectTags = (items: LibraryItem[]): string[] =>
+  Array.from(new Set(items.flatMap(item => item.tags ?? []))).sort((a, b) => a.localeCompare(b));
+
+export const parseTags = (text: string): string[] =>
+  Array.from(new Set(text.split(',').map(tag => tag.trim()).filter(Boolean)));
@@ -0,0 +1,59 @@
+import { MangaMetadata } from '../types';
+
+export const COMIC_INFO_NAME = /(^|\/)comicinfo\.xml$/i;
+
+const parseNumber = (value: string | null | undefined) => {
+  if (!value) return undefined;
+  const number = parseFloat(value);
+  return Number.isFinite(number) ? number : undefined;
+};
+
+// Drops empty fields so spreading one source over another never blanks out a value
+const compact = (metadata: MangaMetadata): MangaMetadata =>
+  Object.fromEntries(Object.entries(metadata).filter(([, value]) => value !== undefined && value !== '')) as MangaMetadata;
+
+// https://anansi-project.github.io/docs/comicinfo/schemas/v2.0
+export const parseComicInfo = (xml: string): MangaMetadata => {
+  const doc = new DOMParser().parseFromString(xml, 'application/xml');
+  if (doc.querySelector('parsererror')) return {};
+  const field = (name: string) => doc.querySelector(`ComicInfo > ${name}`)?.textContent?.trim() || undefined;
+
+  const manga = field('Manga');
+  return compact({
+    series: field('Series'),
+    volume: parseNumber(field('Volume')),
+    chapter: parseNumber(field('Number')),
+    writer: field('Writer'),
+    language: field('LanguageISO'),
+    readingDirection: manga === 'YesAndRightToLeft' ? 'rtl' : manga === 'No' ? 'ltr' : undefined,
+    summary: field('Summary'),
+  });
+};
+
+const VOLUME_PATTERN = /\b(?:v|vol\.?|volume)\s*(\d+(?:\.\d+)?)/i;
+export const CHAPTER_PATTERN = /(?:\b(?:c|ch\.?|chapter)|#)\s*(\d+(?:\.\d+)?)/i;
+
+// Handles names like "Series v03 c012", "[Group] Series Vol. 3 (Digital)" or "Series_-_Chapter_12"
+export const parseFilenameMetadata = (name: string): MangaMetadata => {
+  const cleaned = name
+    .replace(/_/g, ' ')
+    .replace(/\[[^\]]*\]|\([^)]*\)|\{[^}]*\}/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+  const volumeMatch = cleaned.match(VOLUME_PATTERN);
+  const chapterMatch = cleaned.match(CHAPTER_PATTERN);
+  if (!volumeMatch && !chapterMatch) return {};
+
+  const firstMatch = Math.min(volumeMatch?.index ?? Infinity, chapterMatch?.index ?? Infinity);
+  const series = cleaned.slice(0, firstMatch).replace(/[\s\-–—:,.]+$/, '').trim();
+
+  return compact({
+    series: series || undefined,
+    volume: parseNumber(volumeMatch?.[1]),
+    chapter: parseNumber(chapterMatch?.[1]),
+  });
+};
+
+export const mergeMetadata = (...sources: (MangaMetadata | undefined)[]): MangaMetadata =>
+  sources.reduce<MangaMetadata>((merged, source) => ({ ...merged, ...(source ? compact(source) : {}) }), {});
@@ -0,0 +1,89 @@
+import { SpeechBubble } from '../types';
+import { createJob } from './ocr';
+import type { OcrProvider } from './ocrProviders';
+
+// Offline stand-in for real OCR. Answers come from fixtures keyed by the SHA-256 of the image bytes;
+// images without a fixture get placeholder output derived from their hash, so every run gives the same result.
+// The registered provider reads its fixtures from ocr-fixtures.json next to the app, when there is one,
+// and logs the hash of every image it has no fixture for so new ones are easy to add.
+
+export interface OcrFixtures {
+  pages?: Record<string, SpeechBubble[]>; // Whole-page analysis, by image hash
+  crops?: Record<string, string>; // Single-crop recognition, by image hash
+  delayMs?: number; // Simulated latency, to exercise loading states and cancellation
+}
+
+export const DEFAULT_OCR_FIXTURES: OcrFixtures = {
+  delayMs: 300,
+};
+
+const FIXTURES_FILE = 'ocr-fixtures.json';
+
+// A missing file just means placeholders; a broken one is worth a warning
+const loadFixturesFile = async (): Promise<OcrFixtures> => {
+  try {
+    // Asking for JSON keeps dev servers from answering with the app's index.html
+    const response = await fetch(new URL(FIXTURES_FILE, document.baseURI), { headers: { Accept: 'application/json' } });
+    if (!response.ok) return DEFAULT_OCR_FIXTURES;
+    return { ...DEFAULT_OCR_FIXTURES, ...await response.json() };
+  } catch (error) {
+    console.warn(`Could not read ${FIXTURES_FILE}; the mock OCR provider will return placeholders`, error);
+    return DEFAULT_OCR_FIXTURES;
+  }
+};
+
+const hashImage = async (image: Blob | Promise<Blob>): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', await (await image).arrayBuffer());
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+const wait = (ms: number, signal: AbortSignal) =>
+  new Promise<void>((resolve) => {
+    const timer = setTimeout(resolve, ms);
+    signal.addEventListener('abort', () => clearTimeout(timer));
+  });
+
+// A couple of boxes spread down the page, placed by the hash
+const placeholderBubbles = (hash: string): SpeechBubble[] => {
+  const seed = parseInt(hash.slice(0, 8), 16);
+  return [0, 1].map((i) => {
+    const top = 100 + i * 450 + (seed >> (i * 4)) % 100;
+    const left = 150 + (seed >> (i * 8)) % 500;
+    return { text: `Mock bubble ${i + 1} (${hash.slice(0, 6)})`, box_2d: [top, left, top + 150, left + 200] };
+  });
+};
+
+const withoutFixture = <T>(kind: string, hash: string, placeholder: T): T => {
+  console.info(`Mock OCR has no ${kind} fixture for image ${hash}`);
+  return placeholder;
+};
+
+// Fixtures can be given directly or loaded on first use
+export const createMockProvider = (
+  fixtures: OcrFixtures | (() => Promise<OcrFixtures>) = DEFAULT_OCR_FIXTURES,
+): OcrProvider => {
+  let loaded: Promise<OcrFixtures> | null = null;
+  const getFixtures = () => loaded ??= typeof fixtures === 'function' ? fixtures() : Promise.resolve(fixtures);
+
+  return {
+    id: 'mock',
+    name: 'Mock (fixtures)',
+    isAvailable: () => true,
+
+    recognize: (image, options) => createJob(async (signal) => {
+      const [hash, { crops, delayMs }] = await Promise.all([hashImage(image), getFixtures()]);
+      await wait(delayMs ?? 0, signal);
+      options?.onProgress?.(1);
+      return crops?.[hash] ?? withoutFixture('crop', hash, `Mock text (${hash.slice(0, 6)})`);
+    }),
+
+    analyzePage: (image, options) => createJob(async (signal) => {
+      const [hash, { pages, delayMs }] = await Promise.all([hashImage(image), getFixtures()]);
+      await wait(delayMs ?? 0, signal);
+      options?.onProgress?.(1);
+      return pages?.[hash] ?? withoutFixture('page', hash, placeholderBubbles(hash));
+    }),
+  };
+};
+
+export const mockProvider = createMockProvider(loadFixturesFile);
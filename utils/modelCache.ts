@@ -0,0 +1,67 @@
+import JSZip from 'jszip';
+
+// What is on the device for the on-device models. transformers.js keeps every file it downloads in
+// Cache Storage, keyed by its Hugging Face URL; imported bundles are written under the same keys, so
+// the workers pick them up exactly as if they had been downloaded.
+
+export type ModelStatus = 'not-downloaded' | 'cached' | 'loading' | 'ready' | 'error';
+
+// Must match transformers.js (env.remoteHost and env.remotePathTemplate at their defaults)
+const CACHE_NAME = 'transformers-cache';
+const fileUrl = (repo: string, file: string) => `https://huggingface.co/${repo}/resolve/main/${file}`;
+
+const CONTENT_TYPES: Record<string, string> = {
+  json: 'application/json',
+  txt: 'text/plain',
+  model: 'application/octet-stream',
+  onnx: 'application/octet-stream',
+};
+
+const cachedFiles = async (repo: string): Promise<Request[]> => {
+  if (!('caches' in self)) return [];
+  const prefix = fileUrl(repo, '');
+  const keys = await (await caches.open(CACHE_NAME)).keys();
+  return keys.filter(request => request.url.startsWith(prefix));
+};
+
+// A repo counts as cached once its weights are; the small config files come with them
+export const getModelStatus = async (repo: string): Promise<'not-downloaded' | 'cached'> => {
+  const files = await cachedFiles(repo);
+  return files.some(request => request.url.endsWith('.onnx')) ? 'cached' : 'not-downloaded';
+};
+
+export const deleteCachedModel = async (repo: string): Promise<void> => {
+  const cache = await caches.open(CACHE_NAME);
+  await Promise.all((await cachedFiles(repo)).map(request => cache.delete(request)));
+};
+
+// Loads a zip laid out like the Hugging Face repos it holds, e.g.
+// `Xenova/trocr-small-printed/onnx/decoder_model_merged_quantized.onnx`, optionally inside a
+// top-level `models/` folder. Resolves to the repos it contained.
+export const importModelBundle = async (file: Blob): Promise<string[]> => {
+  if (!('caches' in self)) throw new Error("This browser has no Cache Storage to keep models in.");
+  const zip = await new JSZip().loadAsync(file);
+  const cache = await caches.open(CACHE_NAME);
+  const repos = new Set<string>();
+
+  for (const entry of Object.values(zip.files)) {
+    if (entry.dir) continue;
+    const parts = entry.name.replace(/^models\//, '').split('/');
+    // Anything shallower than org/name/file isn't part of a repo (a readme at the root, say)
+    if (parts.length < 3) continue;
+    const repo = parts.slice(0, 2).join('/');
+    const path = parts.slice(2).join('/');
+    const extension = path.split('.').pop()!.toLowerCase();
+    const data = await entry.async('blob');
+    await cache.put(fileUrl(repo, path), new Response(data, {
+      headers: {
+        'Content-Type': CONTENT_TYPES[extension] ?? 'application/octet-stream',
+        'Content-Length': String(data.size),
+      },
+    }));
+    repos.add(repo);
+  }
+
+  if (repos.size === 0) throw new Error("The bundle has no model files. Expected folders named like `Xenova/trocr-small-printed`.");
+  return [...repos];
+};
@@ -0,0 +1,15 @@
+import { env } from '@huggingface/transformers';
+
+// Shared transformers.js setup for the workers, imported before they load any model.
+//
+// Downloaded files stay in Cache Storage (see utils/modelCache.ts), so a model fetched once works
+// offline. Local model paths stay off: the dev server answers unknown paths with index.html.
+env.useBrowserCache = true;
+env.allowLocalModels = false;
+
+// transformers.js points onnxruntime at its wasm on a CDN, which an offline install can't reach.
+// Without that override onnxruntime falls back to the copy Vite emits next to the worker bundles,
+// which the service worker precaches. Dev builds keep the CDN, as pre-bundling moves the files.
+if (import.meta.env.PROD && env.backends.onnx.wasm) {
+  env.backends.onnx.wasm.wasmPaths = undefined;
+}
@@ -1,36 +1,200 @@
-import { pipeline } from '@huggingface/transformers';
+import { OcrModelId, SpeechBubble } from '../types';
+import { OcrJobKind, OcrJobResults, OcrModelSpec, OcrRequest, OcrResponse } from './ocrMessages';
 
-let trocrPipe: any = null;
+// Main-thread side of the OCR worker. Everything heavy happens in utils/ocrWorker.ts;
+// this module only queues jobs and routes the worker's replies back to their promises.
 
-export const initTrOCR = async () => {
-  if (!trocrPipe) {
-    trocrPipe = await pipeline('image-to-text', 'Xenova/trocr-small-printed', { dtype: 'q8' });
-  }
-  return trocrPipe;
+export interface OcrModel extends OcrModelSpec {
+  id: OcrModelId;
+  name: string;
+}
+
+export const OCR_MODELS: Record<OcrModelId, OcrModel> = {
+  'trocr-printed': {
+    id: 'trocr-printed',
+    name: 'English (TrOCR)',
+    repo: 'Xenova/trocr-small-printed',
+    dtype: 'q8',
+    language: 'en',
+    verticalText: false,
+  },
+  // ONNX export of kha-white/manga-ocr-base, trained on manga lettering in both directions
+  'manga-ocr': {
+    id: 'manga-ocr',
+    name: 'Japanese (manga-ocr)',
+    repo: 'l0wgear/manga-ocr-2025-onnx',
+    dtype: 'q8',
+    language: 'ja',
+    verticalText: true,
+  },
+};
+
+// The title's own choice wins; otherwise Japanese titles get manga-ocr and everything else TrOCR
+export const resolveOcrModel = (choice: OcrModelId | undefined, language: string | undefined): OcrModel => {
+  if (choice) return OCR_MODELS[choice];
+  return language?.toLowerCase().startsWith('ja') ? OCR_MODELS['manga-ocr'] : OCR_MODELS['trocr-printed'];
 };
 
-export const preloadModel = async (onProgress: (data: any) => void) => {
-  const wrappedProgress = (data: any) => {
-    if (data.status === 'progress' && typeof data.progress === 'number' && !isNaN(data.progress)) {
-      onProgress(data);
-    }
+export interface OcrJob<T> {
+  promise: Promise<T>;
+  cancel: () => void;
+  setPriority: (priority: number) => void;
+}
+
+export interface OcrJobOptions {
+  model?: OcrModel;
+  priority?: number;
+  onProgress?: (progress: number) => void; // 0-1
+}
+
+// Lower numbers run first. A selection the user just drew beats any page analysis.
+export const PRIORITY_SELECTION = 0;
+export const PRIORITY_VISIBLE = 1;
+export const PRIORITY_BACKGROUND = 2;
+
+export class OcrCancelledError extends Error {
+  constructor() {
+    super("OCR job was cancelled.");
+    this.name = 'OcrCancelledError';
+  }
+}
+
+// Adapts a plain async call to the OcrJob shape. Cancelling settles the job at once and aborts the signal;
+// priorities are ignored since such providers don't queue.
+export const createJob = <T>(run: (signal: AbortSignal) => Promise<T>): OcrJob<T> => {
+  const controller = new AbortController();
+  let rejectJob: (error: Error) => void = () => undefined;
+  const promise = new Promise<T>((resolve, reject) => {
+    rejectJob = reject;
+    run(controller.signal).then(resolve, reject);
+  });
+  return {
+    promise,
+    cancel: () => {
+      controller.abort();
+      rejectJob(new OcrCancelledError());
+    },
+    setPriority: () => undefined,
   };
-  if (!trocrPipe) {
-    trocrPipe = await pipeline('image-to-text', 'Xenova/trocr-small-printed', { dtype: 'q8', progress_callback: wrappedProgress });
+};
+
+interface PendingJob {
+  resolve: (result: any) => void;
+  reject: (error: Error) => void;
+  onProgress?: (progress: number) => void;
+}
+
+let worker: Worker | null = null;
+let nextJobId = 1;
+const pendingJobs = new Map<number, PendingJob>();
+
+interface ModelLoad {
+  ready: Promise<void>;
+  resolve: () => void;
+  reject: (error: Error) => void;
+  listeners: Set<(progress: number) => void>;
+}
+
+// Keyed by repo; an entry exists from the first preload until the load fails
+const modelLoads = new Map<string, ModelLoad>();
+
+const handleMessage = (message: OcrResponse) => {
+  switch (message.type) {
+    case 'model-progress':
+      modelLoads.get(message.repo)?.listeners.forEach(listener => listener(message.progress));
+      break;
+    case 'model-ready':
+      modelLoads.get(message.repo)?.resolve();
+      break;
+    case 'model-error':
+      modelLoads.get(message.repo)?.reject(new Error(message.message));
+      modelLoads.delete(message.repo);
+      break;
+    case 'progress':
+      pendingJobs.get(message.id)?.onProgress?.(message.progress);
+      break;
+    case 'result':
+      pendingJobs.get(message.id)?.resolve(message.result);
+      pendingJobs.delete(message.id);
+      break;
+    case 'failed':
+      pendingJobs.get(message.id)?.reject(new Error(message.message));
+      pendingJobs.delete(message.id);
+      break;
   }
-  return trocrPipe;
 };
 
-export const recognizeTextFromImage = async (dataURL: string): Promise<string> => {
-  const pipe = await initTrOCR();
-  const img = new Image();
-  img.src = dataURL;
-  await new Promise((resolve) => img.onload = resolve);
-  try {
-    const result = await pipe(img);
-    return result[0]?.generated_text || '';
-  } catch (error) {
-    console.error('OCR processing failed:', error);
-    return '';
+const send = (message: OcrRequest) => {
+  if (!worker) {
+    worker = new Worker(new URL('./ocrWorker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (event: MessageEvent<OcrResponse>) => handleMessage(event.data);
   }
-};
\ No newline at end of file
+  worker.postMessage(message);
+};
+
+// Only the spec crosses over to the worker
+const toSpec = ({ repo, dtype, language, verticalText }: OcrModel): OcrModelSpec => ({ repo, dtype, language, verticalText });
+
+// Starts downloading the model ahead of the first job; resolves once it is loaded
+export const preloadModel = (model: OcrModel, onProgress?: (progress: number) => void): Promise<void> => {
+  let load = modelLoads.get(model.repo);
+  if (!load) {
+    let settle!: Pick<ModelLoad, 'resolve' | 'reject'>;
+    const ready = new Promise<void>((resolve, reject) => { settle = { resolve, reject }; });
+    load = { ready, ...settle, listeners: new Set() };
+    modelLoads.set(model.repo, load);
+    send({ type: 'preload', model: toSpec(model) });
+  }
+  const { ready, listeners } = load;
+  if (onProgress) listeners.add(onProgress);
+  return ready.finally(() => {
+    if (onProgress) listeners.delete(onProgress);
+  });
+};
+
+// The image may still be on its way (e.g. a page being extracted); the job is queued once it arrives
+const submit = <K extends OcrJobKind>(
+  kind: K,
+  image: Blob | Promise<Blob>,
+  { model = OCR_MODELS['trocr-printed'], priority = PRIORITY_BACKGROUND, onProgress }: OcrJobOptions = {},
+): OcrJob<OcrJobResults[K]> => {
+  const id = nextJobId++;
+  let sent = false;
+  const promise = new Promise<OcrJobResults[K]>((resolve, reject) => {
+    pendingJobs.set(id, { resolve, reject, onProgress });
+  });
+
+  Promise.resolve(image).then(
+    (blob) => {
+      if (!pendingJobs.has(id)) return;
+      sent = true;
+      send({ type: 'submit', id, kind, model: toSpec(model), image: blob, priority });
+    },
+    (error) => {
+      pendingJobs.get(id)?.reject(error);
+      pendingJobs.delete(id);
+    },
+  );
+
+  return {
+    promise,
+    // Settles right away; the worker drops the job if queued, or stops it between regions if running
+    cancel: () => {
+      const pending = pendingJobs.get(id);
+      if (!pending) return;
+      pendingJobs.delete(id);
+      pending.reject(new OcrCancelledError());
+      if (sent) send({ type: 'cancel', id });
+    },
+    setPriority: (next) => {
+      priority = next;
+      if (sent && pendingJobs.has(id)) send({ type: 'prioritize', id, priority: next });
+    },
+  };
+};
+
+export const recognizeTextFromImage = (image: Blob | Promise<Blob>, options?: OcrJobOptions): OcrJob<string> =>
+  submit('recognize', image, options);
+
+export const analyzePage = (image: Blob | Promise<Blob>, options?: OcrJobOptions): OcrJob<SpeechBubble[]> =>
+  submit('analyze', image, options);
@@ -0,0 +1,33 @@
+import { SpeechBubble } from '../types';
+
+// Message protocol between utils/ocr.ts (main thread) and utils/ocrWorker.ts
+
+export type OcrJobKind = 'recognize' | 'analyze';
+
+// What the worker needs to know about a registry entry
+export interface OcrModelSpec {
+  repo: string; // Hugging Face repo with ONNX weights
+  dtype: 'fp32' | 'q8';
+  language: 'en' | 'ja'; // Drives text normalization
+  verticalText: boolean; // Reads top-to-bottom columns natively
+}
+
+// What each kind of job resolves to
+export interface OcrJobResults {
+  recognize: string; // Text in a single cropped image
+  analyze: SpeechBubble[]; // Every text region found on a whole page
+}
+
+export type OcrRequest =
+  | { type: 'preload'; model: OcrModelSpec }
+  | { type: 'submit'; id: number; kind: OcrJobKind; model: OcrModelSpec; image: Blob; priority: number }
+  | { type: 'prioritize'; id: number; priority: number }
+  | { type: 'cancel'; id: number };
+
+export type OcrResponse =
+  | { type: 'model-progress'; repo: string; progress: number } // 0-1, per downloaded file
+  | { type: 'model-ready'; repo: string }
+  | { type: 'model-error'; repo: string; message: string }
+  | { type: 'progress'; id: number; progress: number } // 0-1
+  | { type: 'result'; id: number; result: OcrJobResults[OcrJobKind] }
+  | { type: 'failed'; id: number; message: string };
@@ -0,0 +1,82 @@
+import { OcrProviderId, SpeechBubble } from '../types';
+import { OcrCancelledError, OcrJob, OcrJobOptions, OcrModel, analyzePage, preloadModel, recognizeTextFromImage } from './ocr';
+import { geminiProvider } from './geminiOcr';
+import { mockProvider } from './mockOcr';
+
+// Everything that reads text off a page goes through one of these, so backends can be swapped
+// or chained without the reader knowing which one answered.
+export interface OcrProvider {
+  id: string;
+  name: string;
+  isAvailable: () => boolean;
+  // Only providers that run a local model need this
+  preload?: (model: OcrModel, onProgress?: (progress: number) => void) => Promise<void>;
+  recognize: (image: Blob | Promise<Blob>, options?: OcrJobOptions) => OcrJob<string>;
+  analyzePage: (image: Blob | Promise<Blob>, options?: OcrJobOptions) => OcrJob<SpeechBubble[]>;
+}
+
+// transformers.js in a worker; see utils/ocr.ts
+export const localProvider: OcrProvider = {
+  id: 'local',
+  name: 'On-device model',
+  isAvailable: () => true,
+  preload: preloadModel,
+  recognize: recognizeTextFromImage,
+  analyzePage,
+};
+
+export const OCR_PROVIDERS: Record<OcrProviderId, OcrProvider> = {
+  local: localProvider,
+  gemini: geminiProvider,
+  mock: mockProvider,
+};
+
+// Runs a job on each provider in turn until one succeeds. Cancellation is never treated as a failure.
+const runWithFallback = <T>(providers: OcrProvider[], start: (provider: OcrProvider) => OcrJob<T>): OcrJob<T> => {
+  let current: OcrJob<T> | null = null;
+  let cancelled = false;
+  let priority: number | undefined;
+
+  const promise = (async () => {
+    let lastError: unknown = new Error("No OCR provider is available.");
+    for (const provider of providers) {
+      if (cancelled) throw new OcrCancelledError();
+      current = start(provider);
+      if (priority !== undefined) current.setPriority(priority);
+      try {
+        return await current.promise;
+      } catch (error) {
+        if (error instanceof OcrCancelledError) throw error;
+        console.warn(`OCR with ${provider.name} failed, trying the next provider`, error);
+        lastError = error;
+      }
+    }
+    throw lastError;
+  })();
+
+  return {
+    promise,
+    cancel: () => {
+      cancelled = true;
+      current?.cancel();
+    },
+    setPriority: (next) => {
+      priority = next;
+      current?.setPriority(next);
+    },
+  };
+};
+
+// One provider that stands for the user's ordered list, skipping backends that aren't set up
+export const createProviderChain = (order: OcrProviderId[]): OcrProvider => {
+  const providers = order.map(id => OCR_PROVIDERS[id]).filter(provider => provider.isAvailable());
+  return {
+    id: providers.map(provider => provider.id).join('+'),
+    name: providers.map(provider => provider.name).join(', '),
+    isAvailable: () => providers.length > 0,
+    // Only worth downloading a model if it is the first thing tried
+    preload: providers[0]?.preload,
+    recognize: (image, options) => runWithFallback(providers, provider => provider.recognize(image, options)),
+    analyzePage: (image, options) => runWithFallback(providers, provider => provider.analyzePage(image, options)),
+  };
+};
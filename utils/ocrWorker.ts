@@ -0,0 +1,163 @@
+import { pipeline, RawImage } from '@huggingface/transformers';
+import './modelEnv';
+import { OcrJobKind, OcrJobResults, OcrModelSpec, OcrRequest, OcrResponse } from './ocrMessages';
+import { Box, cropRegion, findTextRegions, rotateCounterClockwise } from './pageAnalyzer';
+import { normalizeOcrText } from './textNormalize';
+
+// Model loading and inference live here so the reader never blocks on them.
+// Jobs run one at a time, lowest priority number first, and are cancelled between regions. Among
+// jobs of the same priority, ones for the loaded model go first so two models don't keep swapping.
+
+interface Job {
+  id: number;
+  kind: OcrJobKind;
+  model: OcrModelSpec;
+  image: Blob;
+  priority: number;
+  order: number; // Submission order breaks priority ties
+  cancelled: boolean;
+}
+
+// Crops this much taller than wide are treated as a column of vertical text
+const VERTICAL_ASPECT = 1.5;
+
+// The DOM lib types `self` as a Window; in here it is the worker scope
+const scope = self as unknown as Worker;
+const post = (message: OcrResponse) => scope.postMessage(message);
+
+class JobCancelledError extends Error {}
+
+// Only one model is kept in memory; switching titles to another model unloads the previous one
+let loaded: { repo: string; pipe: Promise<any> } | null = null;
+
+const loadModel = (model: OcrModelSpec) => {
+  if (loaded?.repo !== model.repo) {
+    loaded?.pipe.then(pipe => pipe.dispose(), () => undefined);
+    const { repo } = model;
+    const pipe = pipeline('image-to-text', repo, {
+      dtype: model.dtype,
+      progress_callback: (data: any) => {
+        if (data.status === 'progress' && typeof data.progress === 'number' && !isNaN(data.progress)) {
+          post({ type: 'model-progress', repo, progress: data.progress / 100 });
+        }
+      },
+    });
+    loaded = { repo, pipe };
+    pipe.then(
+      () => post({ type: 'model-ready', repo }),
+      (error) => {
+        // Let the next job retry, e.g. once the network is back
+        if (loaded?.pipe === pipe) loaded = null;
+        post({ type: 'model-error', repo, message: error instanceof Error ? error.message : String(error) });
+      },
+    );
+  }
+  return loaded!.pipe;
+};
+
+const recognize = async (crop: ImageData, model: OcrModelSpec): Promise<string> => {
+  const pipe = await loadModel(model);
+  // Horizontal-only models get vertical columns turned on their side
+  const input = !model.verticalText && crop.height > crop.width * VERTICAL_ASPECT
+    ? rotateCounterClockwise(crop)
+    : crop;
+  const result = await pipe(new RawImage(input.data, input.width, input.height, 4));
+  return normalizeOcrText(result[0]?.generated_text ?? '', model.language);
+};
+
+const checkCancelled = (job: Job) => {
+  if (job.cancelled) throw new JobCancelledError();
+};
+
+const runJob = async (job: Job): Promise<OcrJobResults[OcrJobKind]> => {
+  const bitmap = await createImageBitmap(job.image);
+  try {
+    if (job.kind === 'recognize') {
+      const text = await recognize(cropRegion(bitmap, [0, 0, 1000, 1000]), job.model);
+      checkCancelled(job);
+      return text;
+    }
+
+    const regions: Box[] = findTextRegions(bitmap);
+    const bubbles: OcrJobResults['analyze'] = [];
+    for (let i = 0; i < regions.length; i++) {
+      checkCancelled(job);
+      const text = await recognize(cropRegion(bitmap, regions[i]), job.model);
+      if (text) bubbles.push({ text, box_2d: regions[i] });
+      post({ type: 'progress', id: job.id, progress: (i + 1) / regions.length });
+    }
+    checkCancelled(job);
+    return bubbles;
+  } finally {
+    bitmap.close();
+  }
+};
+
+const queue: Job[] = [];
+const jobsById = new Map<number, Job>();
+let submitted = 0;
+let running = false;
+// Loading another model unloads the one in use, so a preload waits until no job needs it
+let deferredPreload: OcrModelSpec | null = null;
+
+const usesLoadedModel = (job: Job) => Number(job.model.repo === loaded?.repo);
+
+const drain = async () => {
+  if (running) return;
+  running = true;
+  while (queue.length > 0) {
+    queue.sort((a, b) => a.priority - b.priority || usesLoadedModel(b) - usesLoadedModel(a) || a.order - b.order);
+    const job = queue.shift()!;
+    try {
+      const result = await runJob(job);
+      post({ type: 'result', id: job.id, result });
+    } catch (error) {
+      post({
+        type: 'failed',
+        id: job.id,
+        message: error instanceof JobCancelledError ? 'cancelled' : error instanceof Error ? error.message : String(error),
+      });
+    } finally {
+      jobsById.delete(job.id);
+    }
+  }
+  running = false;
+  if (deferredPreload) {
+    loadModel(deferredPreload).catch(() => undefined);
+    deferredPreload = null;
+  }
+};
+
+scope.onmessage = (event: MessageEvent<OcrRequest>) => {
+  const message = event.data;
+  switch (message.type) {
+    case 'preload':
+      if (running || queue.length > 0) deferredPreload = message.model;
+      else loadModel(message.model).catch(() => undefined);
+      break;
+    case 'submit': {
+      const job: Job = { ...message, order: submitted++, cancelled: false };
+      jobsById.set(job.id, job);
+      queue.push(job);
+      drain();
+      break;
+    }
+    case 'prioritize': {
+      const job = jobsById.get(message.id);
+      if (job) job.priority = message.priority;
+      break;
+    }
+    case 'cancel': {
+      const job = jobsById.get(message.id);
+      if (!job) break;
+      job.cancelled = true;
+      // Queued jobs are dropped outright; the running one stops at its next check
+      const queued = queue.indexOf(job);
+      if (queued !== -1) {
+        queue.splice(queued, 1);
+        jobsById.delete(job.id);
+      }
+      break;
+    }
+  }
+};
@@ -0,0 +1,156 @@
+export type Box = [number, number, number, number]; // ymin, xmin, ymax, xmax, on a 0-1000 scale
+
+// Detection runs on a downscaled copy; recognition crops from the full-size page
+const ANALYSIS_WIDTH = 600;
+const DARK_THRESHOLD = 110;
+const LIGHT_THRESHOLD = 200;
+const MIN_GLYPHS_PER_REGION = 3;
+
+const toGrayscale = ({ data, width, height }: ImageData): Uint8Array => {
+  const gray = new Uint8Array(width * height);
+  for (let i = 0; i < gray.length; i++) {
+    gray[i] = (data[i * 4] * 299 + data[i * 4 + 1] * 587 + data[i * 4 + 2] * 114) / 1000;
+  }
+  return gray;
+};
+
+// Bounding boxes of 4-connected dark blobs
+const findDarkComponents = (gray: Uint8Array, width: number, height: number): Box[] => {
+  const visited = new Uint8Array(width * height);
+  const stack: number[] = [];
+  const boxes: Box[] = [];
+  for (let start = 0; start < gray.length; start++) {
+    if (visited[start] || gray[start] >= DARK_THRESHOLD) continue;
+    let ymin = height, xmin = width, ymax = 0, xmax = 0;
+    visited[start] = 1;
+    stack.push(start);
+    while (stack.length) {
+      const p = stack.pop()!;
+      const x = p % width;
+      const y = (p - x) / width;
+      if (y < ymin) ymin = y;
+      if (y > ymax) ymax = y;
+      if (x < xmin) xmin = x;
+      if (x > xmax) xmax = x;
+      const neighbours = [x > 0 ? p - 1 : -1, x < width - 1 ? p + 1 : -1, p - width, p + width];
+      for (const n of neighbours) {
+        if (n >= 0 && n < gray.length && !visited[n] && gray[n] < DARK_THRESHOLD) {
+          visited[n] = 1;
+          stack.push(n);
+        }
+      }
+    }
+    boxes.push([ymin, xmin, ymax, xmax]);
+  }
+  return boxes;
+};
+
+// Average brightness of a thin ring just outside a box
+const ringBrightness = (gray: Uint8Array, width: number, height: number, [ymin, xmin, ymax, xmax]: Box) => {
+  let sum = 0;
+  let count = 0;
+  const top = Math.max(ymin - 2, 0), bottom = Math.min(ymax + 2, height - 1);
+  const left = Math.max(xmin - 2, 0), right = Math.min(xmax + 2, width - 1);
+  for (let x = left; x <= right; x++) {
+    sum += gray[top * width + x] + gray[bottom * width + x];
+    count += 2;
+  }
+  for (let y = top; y <= bottom; y++) {
+    sum += gray[y * width + left] + gray[y * width + right];
+    count += 2;
+  }
+  return sum / count;
+};
+
+const boxesNear = (a: Box, b: Box, gap: number) =>
+  a[0] - gap <= b[2] && b[0] - gap <= a[2] && a[1] - gap <= b[3] && b[1] - gap <= a[3];
+
+// Lettering shows up as many small dark glyphs sitting on a light background, packed closely together.
+// Glyphs are merged into regions until no two regions are within roughly one glyph of each other.
+export const detectTextRegions = (imageData: ImageData): Box[] => {
+  const { width, height } = imageData;
+  const gray = toGrayscale(imageData);
+
+  const glyphs = findDarkComponents(gray, width, height).filter((box) => {
+    const h = box[2] - box[0] + 1;
+    const w = box[3] - box[1] + 1;
+    return h >= height * 0.004 && h <= height * 0.05 && w <= width * 0.08 && w * h >= 4
+      && ringBrightness(gray, width, height, box) >= LIGHT_THRESHOLD;
+  });
+  if (glyphs.length === 0) return [];
+
+  const heights = glyphs.map(box => box[2] - box[0] + 1).sort((a, b) => a - b);
+  const gap = Math.max(heights[Math.floor(heights.length / 2)], 2);
+
+  let regions = glyphs.map(box => ({ box: [...box] as Box, glyphs: 1 }));
+  let merged = true;
+  while (merged) {
+    merged = false;
+    const next: typeof regions = [];
+    for (const region of regions) {
+      const target = next.find(other => boxesNear(other.box, region.box, gap));
+      if (target) {
+        target.box = [
+          Math.min(target.box[0], region.box[0]),
+          Math.min(target.box[1], region.box[1]),
+          Math.max(target.box[2], region.box[2]),
+          Math.max(target.box[3], region.box[3]),
+        ];
+        target.glyphs += region.glyphs;
+        merged = true;
+      } else {
+        next.push(region);
+      }
+    }
+    regions = next;
+  }
+
+  return regions
+    .filter(region => region.glyphs >= MIN_GLYPHS_PER_REGION)
+    .map(({ box }) => [
+      Math.round(Math.max(box[0] - gap / 2, 0) / height * 1000),
+      Math.round(Math.max(box[1] - gap / 2, 0) / width * 1000),
+      Math.round(Math.min(box[2] + gap / 2, height - 1) / height * 1000),
+      Math.round(Math.min(box[3] + gap / 2, width - 1) / width * 1000),
+    ] as Box);
+};
+
+// Pixels of a 0-1000 box out of the full-size page
+export const cropRegion = (bitmap: ImageBitmap, [ymin, xmin, ymax, xmax]: Box): ImageData => {
+  const x = Math.round(xmin / 1000 * bitmap.width);
+  const y = Math.round(ymin / 1000 * bitmap.height);
+  const w = Math.max(Math.round((xmax - xmin) / 1000 * bitmap.width), 1);
+  const h = Math.max(Math.round((ymax - ymin) / 1000 * bitmap.height), 1);
+  const canvas = new OffscreenCanvas(w, h);
+  const ctx = canvas.getContext('2d')!;
+  ctx.drawImage(bitmap, x, y, w, h, 0, 0, w, h);
+  return ctx.getImageData(0, 0, w, h);
+};
+
+// Quarter turn to the left, so a top-to-bottom column of text reads left to right
+export const rotateCounterClockwise = ({ data, width, height }: ImageData): ImageData => {
+  const rotated = new ImageData(height, width);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const from = (y * width + x) * 4;
+      const to = ((width - 1 - x) * height + y) * 4;
+      rotated.data[to] = data[from];
+      rotated.data[to + 1] = data[from + 1];
+      rotated.data[to + 2] = data[from + 2];
+      rotated.data[to + 3] = data[from + 3];
+    }
+  }
+  return rotated;
+};
+
+// Text regions on a page in top-to-bottom order. Uses OffscreenCanvas, so it also runs inside workers.
+export const findTextRegions = (bitmap: ImageBitmap): Box[] => {
+  const scale = Math.min(ANALYSIS_WIDTH / bitmap.width, 1);
+  const width = Math.max(Math.round(bitmap.width * scale), 1);
+  const height = Math.max(Math.round(bitmap.height * scale), 1);
+  const canvas = new OffscreenCanvas(width, height);
+  const ctx = canvas.getContext('2d', { willReadFrequently: true })!;
+  ctx.drawImage(bitmap, 0, 0, width, height);
+  return detectTextRegions(ctx.getImageData(0, 0, width, height))
+    .sort((a, b) => a[0] - b[0] || a[1] - b[1]);
+};
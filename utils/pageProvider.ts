@@ -0,0 +1,73 @@
+import { PageProvider } from '../types';
+
+const CACHE_SIZE = 16;
+const PREFETCH_AHEAD = 3;
+const PREFETCH_BEHIND = 1;
+
+// Serves page images on demand and keeps only a few of them decoded at a time.
+// Every object URL handed out is owned by the provider and revoked on eviction or release().
+export const createPageProvider = (
+  pageCount: number,
+  loadPage: (index: number) => Promise<Blob>,
+  cacheSize = CACHE_SIZE,
+): PageProvider => {
+  // Map keeps insertion order, so the first key is always the least recently used page
+  const cache = new Map<number, string>();
+  const pending = new Map<number, Promise<string>>();
+  let released = false;
+
+  const remember = (index: number, url: string) => {
+    cache.delete(index);
+    cache.set(index, url);
+    while (cache.size > cacheSize) {
+      const [oldest, oldestUrl] = cache.entries().next().value!;
+      cache.delete(oldest);
+      URL.revokeObjectURL(oldestUrl);
+    }
+  };
+
+  const getPageUrl = (index: number): Promise<string> => {
+    const cached = cache.get(index);
+    if (cached) {
+      remember(index, cached);
+      return Promise.resolve(cached);
+    }
+    let request = pending.get(index);
+    if (!request) {
+      request = loadPage(index)
+        .then((blob) => {
+          if (released) throw new Error("Page provider has been released.");
+          const url = URL.createObjectURL(blob);
+          remember(index, url);
+          return url;
+        })
+        .finally(() => pending.delete(index));
+      pending.set(index, request);
+    }
+    return request;
+  };
+
+  const prefetch = (index: number) => {
+    const targets: number[] = [];
+    for (let offset = 1; offset <= PREFETCH_AHEAD; offset++) targets.push(index + offset);
+    for (let offset = 1; offset <= PREFETCH_BEHIND; offset++) targets.push(index - offset);
+    targets
+      .filter(target => target >= 0 && target < pageCount && !cache.has(target))
+      .forEach(target => getPageUrl(target).catch(() => undefined));
+  };
+
+  const release = () => {
+    released = true;
+    cache.forEach(url => URL.revokeObjectURL(url));
+    cache.clear();
+  };
+
+  return {
+    pageCount,
+    getPageUrl,
+    getCachedUrl: (index) => cache.get(index),
+    getPageBlob: loadPage,
+    prefetch,
+    release,
+  };
+};
@@ -0,0 +1,133 @@
+// Comic panel detection for the guided view. Pages are split along the background-coloured gutters
+// between panels (a recursive XY-cut): rows first, then the panels within each row.
+
+export interface Panel {
+  // Fractions of the page, 0-1
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Detection runs on a small copy of the page; gutters survive downscaling and it keeps this instant
+const WORK_WIDTH = 400;
+// How far (0-255) a pixel may be from the page background and still count as gutter
+const BACKGROUND_TOLERANCE = 32;
+// Share of ink a line may carry and still be a gutter (dust, speech tails crossing over)
+const GUTTER_NOISE = 0.02;
+// Thinner runs of blank lines are gaps inside the art rather than gutters
+const MIN_GUTTER = 3;
+// Anything smaller than this share of the page is noise, not a panel
+const MIN_PANEL_AREA = 0.015;
+const MAX_DEPTH = 6;
+
+interface Region {
+  x0: number;
+  y0: number;
+  x1: number;
+  y1: number;
+}
+
+const readGrayscale = (image: ImageBitmap) => {
+  const width = Math.min(WORK_WIDTH, image.width);
+  const height = Math.max(Math.round(image.height * (width / image.width)), 1);
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true })!;
+  ctx.drawImage(image, 0, 0, width, height);
+  const { data } = ctx.getImageData(0, 0, width, height);
+  const gray = new Uint8Array(width * height);
+  for (let i = 0; i < gray.length; i++) {
+    gray[i] = 0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2];
+  }
+  return { gray, width, height };
+};
+
+// Panels of a page in reading order; the whole page when no gutters are found
+export const detectPanels = (image: ImageBitmap, rtl: boolean): Panel[] => {
+  const { gray, width, height } = readGrayscale(image);
+
+  // The page background is whatever dominates its outer edge: white paper, or black for dark pages
+  let edgeSum = 0;
+  let edgeCount = 0;
+  for (let x = 0; x < width; x++) {
+    edgeSum += gray[x] + gray[(height - 1) * width + x];
+    edgeCount += 2;
+  }
+  for (let y = 0; y < height; y++) {
+    edgeSum += gray[y * width] + gray[y * width + width - 1];
+    edgeCount += 2;
+  }
+  const background = edgeSum / edgeCount;
+  const isInk = (x: number, y: number) => Math.abs(gray[y * width + x] - background) > BACKGROUND_TOLERANCE;
+
+  const rowIsBlank = (y: number, { x0, x1 }: Region) => {
+    let ink = 0;
+    for (let x = x0; x < x1; x++) if (isInk(x, y)) ink++;
+    return ink <= (x1 - x0) * GUTTER_NOISE;
+  };
+  const columnIsBlank = (x: number, { y0, y1 }: Region) => {
+    let ink = 0;
+    for (let y = y0; y < y1; y++) if (isInk(x, y)) ink++;
+    return ink <= (y1 - y0) * GUTTER_NOISE;
+  };
+
+  const shrink = (region: Region): Region => {
+    let { x0, y0, x1, y1 } = region;
+    while (y0 < y1 && rowIsBlank(y0, { x0, y0, x1, y1 })) y0++;
+    while (y1 > y0 && rowIsBlank(y1 - 1, { x0, y0, x1, y1 })) y1--;
+    while (x0 < x1 && columnIsBlank(x0, { x0, y0, x1, y1 })) x0++;
+    while (x1 > x0 && columnIsBlank(x1 - 1, { x0, y0, x1, y1 })) x1--;
+    return { x0, y0, x1, y1 };
+  };
+
+  // Splits [from, to) at every run of blank lines at least MIN_GUTTER long
+  const segments = (from: number, to: number, isBlank: (i: number) => boolean): [number, number][] => {
+    const result: [number, number][] = [];
+    let start = from;
+    let blankRun = 0;
+    for (let i = from; i < to; i++) {
+      if (isBlank(i)) {
+        blankRun++;
+        continue;
+      }
+      if (blankRun >= MIN_GUTTER && i - blankRun > start) {
+        result.push([start, i - blankRun]);
+        start = i;
+      }
+      blankRun = 0;
+    }
+    result.push([start, to]);
+    return result;
+  };
+
+  const pageArea = width * height;
+  const panels: Region[] = [];
+  const cut = (region: Region, depth: number) => {
+    const area = shrink(region);
+    if ((area.x1 - area.x0) * (area.y1 - area.y0) < pageArea * MIN_PANEL_AREA) return;
+    if (depth < MAX_DEPTH) {
+      const rows = segments(area.y0, area.y1, y => rowIsBlank(y, area));
+      if (rows.length > 1) {
+        rows.forEach(([y0, y1]) => cut({ ...area, y0, y1 }, depth + 1));
+        return;
+      }
+      const columns = segments(area.x0, area.x1, x => columnIsBlank(x, area));
+      if (columns.length > 1) {
+        (rtl ? columns.reverse() : columns).forEach(([x0, x1]) => cut({ ...area, x0, x1 }, depth + 1));
+        return;
+      }
+    }
+    panels.push(area);
+  };
+  cut({ x0: 0, y0: 0, x1: width, y1: height }, 0);
+
+  if (panels.length < 2) return [{ x: 0, y: 0, width: 1, height: 1 }];
+  return panels.map(({ x0, y0, x1, y1 }) => ({
+    x: x0 / width,
+    y: y0 / height,
+    width: (x1 - x0) / width,
+    height: (y1 - y0) / height,
+  }));
+};
@@ -0,0 +1,38 @@
+import { getDocument, GlobalWorkerOptions } from 'pdfjs-dist';
+import pdfWorkerUrl from 'pdfjs-dist/build/pdf.worker.min.mjs?url';
+import { ArchiveSource } from './fileUtils';
+
+GlobalWorkerOptions.workerSrc = pdfWorkerUrl;
+
+// Pages are rasterised to roughly this width, which keeps text sharp on most screens
+const TARGET_WIDTH = 1600;
+const MAX_SCALE = 3;
+
+const canvasToBlob = (canvas: HTMLCanvasElement, type: string, quality: number): Promise<Blob> =>
+  new Promise((resolve, reject) => {
+    canvas.toBlob((blob) => blob ? resolve(blob) : reject(new Error("Failed to encode page.")), type, quality);
+  });
+
+// Each page is rendered only when requested, so opening a large PDF is immediate
+export const openPdfSource = async (file: File): Promise<ArchiveSource> => {
+  const doc = await getDocument({ data: await file.arrayBuffer() }).promise;
+
+  return {
+    pageNames: Array.from({ length: doc.numPages }, (_, i) => `page-${i + 1}.jpg`),
+    getPage: async (index) => {
+      const page = await doc.getPage(index + 1);
+      try {
+        const scale = Math.min(TARGET_WIDTH / page.getViewport({ scale: 1 }).width, MAX_SCALE);
+        const viewport = page.getViewport({ scale });
+        const canvas = document.createElement('canvas');
+        canvas.width = Math.ceil(viewport.width);
+        canvas.height = Math.ceil(viewport.height);
+        await page.render({ canvas, viewport }).promise;
+        return await canvasToBlob(canvas, 'image/jpeg', 0.9);
+      } finally {
+        page.cleanup();
+      }
+    },
+    close: () => doc.destroy(),
+  };
+};
@@ -0,0 +1,12 @@
+import { LibraryItem, ReadingStatus } from '../types';
+
+export const getReadingStatus = (item: LibraryItem): ReadingStatus => {
+  if (item.lastReadPage === undefined || !item.pageCount) return 'unread';
+  return item.lastReadPage >= item.pageCount - 1 ? 'finished' : 'reading';
+};
+
+// 0-100, counting the page currently open as read
+export const getProgressPercent = (item: LibraryItem): number => {
+  if (item.lastReadPage === undefined || !item.pageCount) return 0;
+  return Math.min(100, Math.round(((item.lastReadPage + 1) / item.pageCount) * 100));
+};
@@ -0,0 +1,174 @@
+import { PageOcr, SpeechBubble } from '../types';
+import { loadAllPageOcr } from './storage';
+
+// In-memory inverted index over every stored bubble. It is built from IndexedDB on the first search
+// and kept current as pages are analyzed or titles deleted.
+
+export interface SearchHit {
+  mangaId: string;
+  page: number;
+  bubbleIndex: number;
+  bubble: SpeechBubble;
+  snippet: { before: string; match: string; after: string };
+  exact: boolean; // The whole query appears as typed, not just all of its terms
+}
+
+interface IndexedBubble {
+  mangaId: string;
+  page: number;
+  bubbleIndex: number;
+  bubble: SpeechBubble;
+  text: string; // Folded for matching; same length as the displayed text
+}
+
+const SNIPPET_CONTEXT = 30;
+const MAX_HITS = 200;
+
+const CJK_PATTERN = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}ー々]/u;
+const WORD_PATTERN = /[\p{L}\p{N}ー々]+/gu;
+
+// Stored OCR text is already NFKC-normalized, so only case is folded here and offsets stay aligned
+const displayText = (text: string) => text.normalize('NFKC');
+const foldText = (text: string) => displayText(text).toLowerCase();
+
+// Latin words are kept whole. CJK is written without spaces, so CJK runs are cut into overlapping
+// bigrams; a single character stands on its own.
+export const tokenize = (text: string): string[] => {
+  const tokens: string[] = [];
+  for (const word of foldText(text).match(WORD_PATTERN) ?? []) {
+    let run = '';
+    let runIsCjk = false;
+    const flush = () => {
+      if (!run) return;
+      if (!runIsCjk || run.length === 1) {
+        tokens.push(run);
+      } else {
+        const chars = Array.from(run);
+        for (let i = 0; i < chars.length - 1; i++) tokens.push(chars[i] + chars[i + 1]);
+      }
+      run = '';
+    };
+    for (const char of word) {
+      const isCjk = CJK_PATTERN.test(char);
+      if (isCjk !== runIsCjk) flush();
+      runIsCjk = isCjk;
+      run += char;
+    }
+    flush();
+  }
+  return tokens;
+};
+
+// Bubbles are also indexed under each CJK character alone, which is what a one-character query looks up
+const indexTokens = (text: string): string[] => {
+  const characters = Array.from(foldText(text)).filter(char => CJK_PATTERN.test(char));
+  return Array.from(new Set([...tokenize(text), ...characters]));
+};
+
+const bubbles = new Map<string, IndexedBubble>();
+const postings = new Map<string, Set<string>>();
+const pageBubbles = new Map<string, string[]>(); // "mangaId/page" -> bubble keys
+let ready: Promise<void> | null = null;
+
+const removePage = (pageKey: string) => {
+  for (const key of pageBubbles.get(pageKey) ?? []) {
+    const entry = bubbles.get(key);
+    if (!entry) continue;
+    for (const token of indexTokens(entry.text)) {
+      const keys = postings.get(token);
+      keys?.delete(key);
+      if (keys?.size === 0) postings.delete(token);
+    }
+    bubbles.delete(key);
+  }
+  pageBubbles.delete(pageKey);
+};
+
+const addPage = (record: PageOcr) => {
+  const pageKey = `${record.mangaId}/${record.index}`;
+  removePage(pageKey);
+  const keys = record.bubbles.map((bubble, bubbleIndex) => {
+    const key = `${pageKey}/${bubbleIndex}`;
+    const text = foldText(bubble.text);
+    bubbles.set(key, { mangaId: record.mangaId, page: record.index, bubbleIndex, bubble, text });
+    for (const token of indexTokens(text)) {
+      let set = postings.get(token);
+      if (!set) postings.set(token, set = new Set());
+      set.add(key);
+    }
+    return key;
+  });
+  pageBubbles.set(pageKey, keys);
+};
+
+const ensureIndex = () => {
+  if (!ready) {
+    ready = loadAllPageOcr()
+      .then(records => records.forEach(addPage))
+      .catch((error) => {
+        ready = null;
+        throw error;
+      });
+  }
+  return ready;
+};
+
+// Updates only matter once the index exists; until then it will read them from storage anyway
+export const indexPageOcr = (record: PageOcr) => {
+  ready?.then(() => addPage(record), () => undefined);
+};
+
+export const removeMangaFromIndex = (mangaId: string) => {
+  ready?.then(() => {
+    Array.from(pageBubbles.keys())
+      .filter(pageKey => pageKey.startsWith(`${mangaId}/`))
+      .forEach(removePage);
+  }, () => undefined);
+};
+
+const makeSnippet = (bubble: SpeechBubble, start: number, length: number): SearchHit['snippet'] => {
+  const text = displayText(bubble.text);
+  const from = Math.max(start - SNIPPET_CONTEXT, 0);
+  const to = Math.min(start + length + SNIPPET_CONTEXT, text.length);
+  return {
+    before: (from > 0 ? '…' : '') + text.slice(from, start),
+    match: text.slice(start, start + length),
+    after: text.slice(start + length, to) + (to < text.length ? '…' : ''),
+  };
+};
+
+// Bubbles containing every term of the query, exact phrase matches first, then in reading order
+export const searchLibrary = async (query: string): Promise<SearchHit[]> => {
+  await ensureIndex();
+  const terms = Array.from(new Set(tokenize(query)));
+  if (terms.length === 0) return [];
+
+  // Intersect starting from the rarest term so the candidate set stays small
+  const sets = terms.map(term => postings.get(term) ?? new Set<string>()).sort((a, b) => a.size - b.size);
+  const candidates = Array.from(sets[0]).filter(key => sets.every(set => set.has(key)));
+
+  const phrase = foldText(query).trim();
+  const hits = candidates.map((key): SearchHit => {
+    const entry = bubbles.get(key)!;
+    const exactAt = entry.text.indexOf(phrase);
+    const [start, length] = exactAt !== -1
+      ? [exactAt, phrase.length]
+      : [Math.max(entry.text.indexOf(terms[0]), 0), terms[0].length];
+    return {
+      mangaId: entry.mangaId,
+      page: entry.page,
+      bubbleIndex: entry.bubbleIndex,
+      bubble: entry.bubble,
+      snippet: makeSnippet(entry.bubble, start, length),
+      exact: exactAt !== -1,
+    };
+  });
+
+  hits.sort((a, b) =>
+    Number(b.exact) - Number(a.exact) ||
+    a.mangaId.localeCompare(b.mangaId) ||
+    a.page - b.page ||
+    a.bubbleIndex - b.bubbleIndex
+  );
+  return hits.slice(0, MAX_HITS);
+};
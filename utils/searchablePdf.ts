@@ -0,0 +1,225 @@
+import { SpeechBubble } from '../types';
+
+// Minimal PDF writing for text exports: each page is the page image with the recognized bubbles laid
+// over it as invisible text, the way scanners make searchable PDFs. JPEG pages are embedded as they
+// are; other formats are re-encoded to JPEG first. Like the tar writer, the output references the
+// image blobs instead of copying them.
+//
+// The text uses a font with no glyphs at all. Invisible text is never drawn, so viewers only need the
+// ToUnicode map, which sends every two-byte code straight to the same UTF-16 code unit.
+
+const encoder = new TextEncoder();
+
+// Pages are sized as if the images were scanned at this resolution
+const IMAGE_DPI = 96;
+const JPEG_QUALITY = 0.85;
+
+interface JpegInfo {
+  width: number;
+  height: number;
+  components: number;
+}
+
+// Reads the frame header; returns undefined for anything that isn't a baseline or progressive JPEG
+const readJpegInfo = (bytes: Uint8Array): JpegInfo | undefined => {
+  if (bytes[0] !== 0xff || bytes[1] !== 0xd8) return undefined;
+  let offset = 2;
+  while (offset + 9 < bytes.length) {
+    if (bytes[offset] !== 0xff) return undefined;
+    const marker = bytes[offset + 1];
+    const length = (bytes[offset + 2] << 8) | bytes[offset + 3];
+    // SOF0-SOF15, minus DHT (c4), JPG (c8) and DAC (cc)
+    if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+      return {
+        height: (bytes[offset + 5] << 8) | bytes[offset + 6],
+        width: (bytes[offset + 7] << 8) | bytes[offset + 8],
+        components: bytes[offset + 9],
+      };
+    }
+    offset += 2 + length;
+  }
+  return undefined;
+};
+
+const toJpeg = async (image: Blob): Promise<{ data: Blob; info: JpegInfo }> => {
+  if (image.type === 'image/jpeg') {
+    const info = readJpegInfo(new Uint8Array(await image.arrayBuffer()));
+    if (info && [1, 3, 4].includes(info.components)) return { data: image, info };
+  }
+  const bitmap = await createImageBitmap(image);
+  try {
+    const canvas = new OffscreenCanvas(bitmap.width, bitmap.height);
+    const ctx = canvas.getContext('2d')!;
+    // JPEG has no transparency, so see-through areas become paper white instead of black
+    ctx.fillStyle = '#fff';
+    ctx.fillRect(0, 0, bitmap.width, bitmap.height);
+    ctx.drawImage(bitmap, 0, 0);
+    const data = await canvas.convertToBlob({ type: 'image/jpeg', quality: JPEG_QUALITY });
+    return { data, info: { width: bitmap.width, height: bitmap.height, components: 3 } };
+  } finally {
+    bitmap.close();
+  }
+};
+
+const COLOR_SPACES: Record<number, string> = {
+  1: '/DeviceGray',
+  3: '/DeviceRGB',
+  // Adobe's CMYK JPEGs are stored inverted
+  4: '/DeviceCMYK /Decode [1 0 1 0 1 0 1 0]',
+};
+
+const number = (value: number) => (Math.round(value * 100) / 100).toString();
+
+// UTF-16 code units as a hex string; lone surrogates and astral characters have no two-byte code
+const hexText = (text: string) =>
+  Array.from(text, char => {
+    const code = char.length === 1 ? char.charCodeAt(0) : 0xfffd;
+    return (code >= 0xd800 && code <= 0xdfff ? 0xfffd : code).toString(16).padStart(4, '0');
+  }).join('');
+
+// PDF literal strings need their delimiters escaped; non-ASCII goes through as UTF-16 below
+const pdfString = (text: string) => {
+  if (/^[\x20-\x7e]*$/.test(text)) return `(${text.replace(/[\\()]/g, '\\$&')})`;
+  return `<feff${hexText(text)}>`;
+};
+
+// Every bubble line stretched over its share of the bubble's box, in invisible rendering mode
+const textLayer = (bubbles: SpeechBubble[], width: number, height: number) => {
+  const operations: string[] = ['BT', '3 Tr'];
+  for (const bubble of bubbles) {
+    const lines = bubble.text.split('\n').map(line => line.trim()).filter(Boolean);
+    if (!lines.length) continue;
+    const [ymin, xmin, ymax, xmax] = bubble.box_2d;
+    const left = (xmin / 1000) * width;
+    const boxWidth = ((xmax - xmin) / 1000) * width;
+    const top = height - (ymin / 1000) * height;
+    const lineHeight = ((ymax - ymin) / 1000) * height / lines.length;
+    if (boxWidth <= 0 || lineHeight <= 0) continue;
+    lines.forEach((line, index) => {
+      // Glyphs are one em wide, so horizontal scaling alone makes the line span the box
+      const length = Array.from(line).length;
+      const scale = (boxWidth / (length * lineHeight)) * 100;
+      const baseline = top - lineHeight * (index + 1);
+      operations.push(
+        `/F1 ${number(lineHeight)} Tf ${number(scale)} Tz`,
+        `1 0 0 1 ${number(left)} ${number(baseline)} Tm`,
+        `<${hexText(line)}> Tj`,
+      );
+    });
+  }
+  operations.push('ET');
+  return operations.join('\n');
+};
+
+const toUnicodeMap = () => {
+  const ranges: string[] = [];
+  for (let high = 0; high < 0x100; high++) {
+    if (high >= 0xd8 && high <= 0xdf) continue;
+    const prefix = high.toString(16).padStart(2, '0');
+    ranges.push(`<${prefix}00> <${prefix}ff> <${prefix}00>`);
+  }
+  // bfrange sections hold at most 100 entries each
+  const sections: string[] = [];
+  for (let start = 0; start < ranges.length; start += 100) {
+    const chunk = ranges.slice(start, start + 100);
+    sections.push(`${chunk.length} beginbfrange\n${chunk.join('\n')}\nendbfrange`);
+  }
+  return [
+    '/CIDInit /ProcSet findresource begin',
+    '12 dict begin',
+    'begincmap',
+    '/CIDSystemInfo << /Registry (Adobe) /Ordering (UCS) /Supplement 0 >> def',
+    '/CMapName /Adobe-Identity-UCS def',
+    '/CMapType 2 def',
+    '1 begincodespacerange\n<0000> <ffff>\nendcodespacerange',
+    ...sections,
+    'endcmap',
+    'CMapName currentdict /CMap defineresource pop',
+    'end',
+    'end',
+  ].join('\n');
+};
+
+export interface SearchablePdfWriter {
+  addPage: (image: Blob, bubbles: SpeechBubble[]) => Promise<void>;
+  finish: () => Blob;
+}
+
+export const createSearchablePdf = (title: string): SearchablePdfWriter => {
+  const parts: BlobPart[] = [];
+  const offsets: number[] = []; // Byte offset of each object, by object number - 1
+  const pageIds: number[] = [];
+  let size = 0;
+  let nextId = 1;
+
+  const write = (part: string | Blob) => {
+    const data = typeof part === 'string' ? encoder.encode(part) : part;
+    parts.push(data);
+    size += data instanceof Blob ? data.size : data.length;
+  };
+
+  const reserve = () => nextId++;
+
+  const writeObject = (id: number, body: string) => {
+    offsets[id - 1] = size;
+    write(`${id} 0 obj\n${body}\nendobj\n`);
+  };
+
+  const writeStream = (id: number, dictionary: string, data: string | Blob) => {
+    const length = typeof data === 'string' ? encoder.encode(data).length : data.size;
+    offsets[id - 1] = size;
+    write(`${id} 0 obj\n<< ${dictionary} /Length ${length} >>\nstream\n`);
+    write(data);
+    write('\nendstream\nendobj\n');
+  };
+
+  // Fixed objects, referenced by every page
+  const catalogId = reserve();
+  const pagesId = reserve();
+  const fontId = reserve();
+  const cidFontId = reserve();
+  const descriptorId = reserve();
+  const toUnicodeId = reserve();
+  const infoId = reserve();
+
+  write('%PDF-1.4\n%\xe2\xe3\xcf\xd3\n');
+  writeObject(fontId, `<< /Type /Font /Subtype /Type0 /BaseFont /GlyphLessFont /Encoding /Identity-H `
+    + `/DescendantFonts [${cidFontId} 0 R] /ToUnicode ${toUnicodeId} 0 R >>`);
+  writeObject(cidFontId, `<< /Type /Font /Subtype /CIDFontType2 /BaseFont /GlyphLessFont `
+    + `/CIDSystemInfo << /Registry (Adobe) /Ordering (Identity) /Supplement 0 >> `
+    + `/FontDescriptor ${descriptorId} 0 R /DW 1000 /CIDToGIDMap /Identity >>`);
+  writeObject(descriptorId, `<< /Type /FontDescriptor /FontName /GlyphLessFont /Flags 5 `
+    + `/FontBBox [0 0 1000 1000] /ItalicAngle 0 /Ascent 1000 /Descent 0 /CapHeight 1000 /StemV 80 >>`);
+  writeStream(toUnicodeId, '', toUnicodeMap());
+
+  const addPage = async (image: Blob, bubbles: SpeechBubble[]) => {
+    const { data, info } = await toJpeg(image);
+    const width = (info.width * 72) / IMAGE_DPI;
+    const height = (info.height * 72) / IMAGE_DPI;
+    const pageId = reserve();
+    const imageId = reserve();
+    const contentId = reserve();
+
+    writeStream(imageId, `/Type /XObject /Subtype /Image /Width ${info.width} /Height ${info.height} `
+      + `/ColorSpace ${COLOR_SPACES[info.components]} /BitsPerComponent 8 /Filter /DCTDecode`, data);
+    const content = `q ${number(width)} 0 0 ${number(height)} 0 0 cm /Im0 Do Q\n${textLayer(bubbles, width, height)}`;
+    writeStream(contentId, '', content);
+    writeObject(pageId, `<< /Type /Page /Parent ${pagesId} 0 R /MediaBox [0 0 ${number(width)} ${number(height)}] `
+      + `/Resources << /XObject << /Im0 ${imageId} 0 R >> /Font << /F1 ${fontId} 0 R >> >> /Contents ${contentId} 0 R >>`);
+    pageIds.push(pageId);
+  };
+
+  const finish = () => {
+    writeObject(pagesId, `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>`);
+    writeObject(catalogId, `<< /Type /Catalog /Pages ${pagesId} 0 R >>`);
+    writeObject(infoId, `<< /Title ${pdfString(title)} /Producer (MangaLunar) >>`);
+
+    const xrefOffset = size;
+    const entries = offsets.map(offset => `${offset.toString().padStart(10, '0')} 00000 n \n`);
+    write(`xref\n0 ${offsets.length + 1}\n0000000000 65535 f \n${entries.join('')}`);
+    write(`trailer\n<< /Size ${offsets.length + 1} /Root ${catalogId} 0 R /Info ${infoId} 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`);
+    return new Blob(parts, { type: 'application/pdf' });
+  };
+
+  return { addPage, finish };
+};
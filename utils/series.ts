@@ -0,0 +1,49 @@
+import { LibraryItem } from '../types';
+import { comparePageNames } from './fileUtils';
+
+export type LibraryEntry =
+  | { kind: 'series'; key: string; name: string; items: LibraryItem[] }
+  | { kind: 'single'; item: LibraryItem };
+
+const seriesKey = (name: string) => name.trim().toLowerCase().replace(/\s+/g, ' ');
+
+// Volume, then chapter, then title, with unnumbered entries last
+export const compareVolumes = (a: LibraryItem, b: LibraryItem) =>
+  (a.metadata?.volume ?? Infinity) - (b.metadata?.volume ?? Infinity) ||
+  (a.metadata?.chapter ?? Infinity) - (b.metadata?.chapter ?? Infinity) ||
+  comparePageNames(a.title, b.title);
+
+// Titles sharing a series collapse into one entry at the position of the first one;
+// a series with a single title stays a plain card
+export const groupLibrary = (items: LibraryItem[]): LibraryEntry[] => {
+  const groups = new Map<string, LibraryItem[]>();
+  items.forEach((item) => {
+    const series = item.metadata?.series;
+    if (!series) return;
+    const key = seriesKey(series);
+    groups.set(key, [...(groups.get(key) ?? []), item]);
+  });
+
+  const entries: LibraryEntry[] = [];
+  const emitted = new Set<string>();
+  items.forEach((item) => {
+    const key = item.metadata?.series ? seriesKey(item.metadata.series) : undefined;
+    const group = key ? groups.get(key) : undefined;
+    if (!key || !group || group.length < 2) {
+      entries.push({ kind: 'single', item });
+    } else if (!emitted.has(key)) {
+      emitted.add(key);
+      const sorted = [...group].sort(compareVolumes);
+      entries.push({ kind: 'series', key, name: sorted[0].metadata!.series!, items: sorted });
+    }
+  });
+  return entries;
+};
+
+export const formatVolumeLabel = (item: LibraryItem) => {
+  const { volume, chapter } = item.metadata ?? {};
+  if (volume !== undefined && chapter !== undefined) return `Vol. ${volume} Ch. ${chapter}`;
+  if (volume !== undefined) return `Vol. ${volume}`;
+  if (chapter !== undefined) return `Ch. ${chapter}`;
+  return item.title;
+};
@@ -0,0 +1,8 @@
+// The service worker (public/sw.js) only exists in builds; in dev it would serve stale modules
+export const registerServiceWorker = () => {
+  if (!import.meta.env.PROD || !('serviceWorker' in navigator)) return;
+  window.addEventListener('load', () => {
+    navigator.serviceWorker.register(`${import.meta.env.BASE_URL}sw.js`)
+      .catch(error => console.error("Service worker registration failed", error));
+  });
+};
@@ -0,0 +1,37 @@
+// Groups page indices into what the reader shows at once in two-page mode.
+// Wide pages (already a double-page scan) always stand alone, and with a cover offset
+// the first page is shown by itself so the following pages pair up like a printed book.
+export const buildSpreads = (pageCount: number, coverOffset: boolean, widePages: Set<number>): number[][] => {
+  const spreads: number[][] = [];
+  let i = 0;
+  if (coverOffset && pageCount > 0) {
+    spreads.push([0]);
+    i = 1;
+  }
+  while (i < pageCount) {
+    if (widePages.has(i) || i + 1 >= pageCount || widePages.has(i + 1)) {
+      spreads.push([i]);
+      i += 1;
+    } else {
+      spreads.push([i, i + 1]);
+      i += 2;
+    }
+  }
+  return spreads;
+};
+
+export const findSpreadIndex = (spreads: number[][], page: number): number => {
+  const index = spreads.findIndex(spread => spread.includes(page));
+  return index === -1 ? 0 : index;
+};
+
+// A page wider than it is tall is treated as a double-page spread
+export const isWidePage = (width: number, height: number) => width > height * 1.1;
+
+export const getImageSize = (url: string): Promise<{ width: number; height: number }> =>
+  new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve({ width: img.naturalWidth, height: img.naturalHeight });
+    img.onerror = reject;
+    img.src = url;
+  });
@@ -0,0 +1,364 @@
+import { AppSettings, BackupJob, Bookmark, DeckCard, DEFAULT_APP_SETTINGS, LibraryItem, MangaItem, MangaSource, PageOcr, ReaderSettings, StorageUsage } from '../types';
+import { createPageProvider } from './pageProvider';
+
+const DB_NAME = 'mangalunar';
+const DB_VERSION = 5;
+
+const LIBRARY_STORE = 'library';
+const PAGES_STORE = 'pages';
+const SETTINGS_STORE = 'settings';
+const OCR_STORE = 'ocr';
+const DECK_STORE = 'deck';
+const THUMBNAILS_STORE = 'thumbnails';
+const APP_SETTINGS_KEY = 'app';
+const BACKUP_JOB_KEY = 'backup-job';
+
+// What we keep per title. Blob URLs are session-only, so covers are rebuilt from page 0 on load.
+type LibraryRecord = Omit<LibraryItem, 'coverUrl'> & {
+  importComplete?: boolean; // false while pages are still being written
+  contentHash?: string; // Identifies the pages across devices; worked out the first time a backup needs it
+};
+
+// A stored title as backups see it
+export type TitleRecord = Omit<LibraryRecord, 'importComplete'>;
+
+interface PageRecord {
+  mangaId: string;
+  index: number;
+  blob: Blob;
+}
+
+// Same shape as a page; thumbnails are rebuilt from the pages, so backups leave them out
+export type ThumbnailRecord = PageRecord;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDB = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(LIBRARY_STORE)) {
+          db.createObjectStore(LIBRARY_STORE, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(PAGES_STORE)) {
+          const pages = db.createObjectStore(PAGES_STORE, { keyPath: ['mangaId', 'index'] });
+          pages.createIndex('mangaId', 'mangaId');
+        }
+        if (!db.objectStoreNames.contains(SETTINGS_STORE)) {
+          db.createObjectStore(SETTINGS_STORE);
+        }
+        if (!db.objectStoreNames.contains(OCR_STORE)) {
+          const ocr = db.createObjectStore(OCR_STORE, { keyPath: ['mangaId', 'index'] });
+          ocr.createIndex('mangaId', 'mangaId');
+        }
+        if (!db.objectStoreNames.contains(DECK_STORE)) {
+          db.createObjectStore(DECK_STORE, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(THUMBNAILS_STORE)) {
+          const thumbnails = db.createObjectStore(THUMBNAILS_STORE, { keyPath: ['mangaId', 'index'] });
+          thumbnails.createIndex('mangaId', 'mangaId');
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+export const getPageBlob = async (mangaId: string, index: number): Promise<Blob | undefined> => {
+  const db = await openDB();
+  const record: PageRecord | undefined = await promisify(
+    db.transaction(PAGES_STORE).objectStore(PAGES_STORE).get([mangaId, index])
+  );
+  return record?.blob;
+};
+
+const updateLibraryRecord = async (id: string, patch: Partial<LibraryRecord>): Promise<void> => {
+  const db = await openDB();
+  const tx = db.transaction(LIBRARY_STORE, 'readwrite');
+  const store = tx.objectStore(LIBRARY_STORE);
+  const record: LibraryRecord | undefined = await promisify(store.get(id));
+  if (!record) {
+    throw new Error(`Manga ${id} is not in the library.`);
+  }
+  store.put({ ...record, ...patch, id });
+  await transactionDone(tx);
+};
+
+const putPage = async (mangaId: string, index: number, blob: Blob): Promise<void> => {
+  const db = await openDB();
+  const tx = db.transaction(PAGES_STORE, 'readwrite');
+  tx.objectStore(PAGES_STORE).put({ mangaId, index, blob } as PageRecord);
+  await transactionDone(tx);
+};
+
+// Creates the library entry with its cover; the remaining pages follow through storeMangaPages
+export const addManga = async (source: MangaSource): Promise<LibraryItem> => {
+  const db = await openDB();
+  const cover = await source.getPage(0);
+  const record: LibraryRecord = {
+    id: crypto.randomUUID(),
+    title: source.title,
+    metadata: source.metadata,
+    pageCount: source.pageNames.length,
+    chapters: source.chapters,
+    sizeBytes: cover.size,
+    addedAt: Date.now(),
+    importComplete: false,
+  };
+
+  const tx = db.transaction([LIBRARY_STORE, PAGES_STORE], 'readwrite');
+  tx.objectStore(PAGES_STORE).put({ mangaId: record.id, index: 0, blob: cover } as PageRecord);
+  tx.objectStore(LIBRARY_STORE).put(record);
+  await transactionDone(tx);
+
+  // Ask the browser not to evict our data under storage pressure
+  navigator.storage?.persist?.().catch(() => undefined);
+
+  const { importComplete, ...item } = record;
+  return { ...item, coverUrl: URL.createObjectURL(cover) };
+};
+
+// Copies pages one at a time so only a single decoded page is held in memory, whatever the volume size
+export const storeMangaPages = async (
+  id: string,
+  source: MangaSource,
+  onProgress?: (stored: number, total: number) => void,
+): Promise<void> => {
+  const total = source.pageNames.length;
+  // Page 0 was written with the entry as the cover
+  let sizeBytes = (await getPageBlob(id, 0))?.size ?? 0;
+  onProgress?.(1, total);
+  for (let index = 1; index < total; index++) {
+    const blob = await source.getPage(index);
+    await putPage(id, index, blob);
+    sizeBytes += blob.size;
+    onProgress?.(index + 1, total);
+  }
+  await updateLibraryRecord(id, { sizeBytes, importComplete: true });
+};
+
+// `importing` lists the titles this session is still storing, which are kept as they are
+export const loadLibrary = async (importing: string[] = []): Promise<LibraryItem[]> => {
+  const db = await openDB();
+  const records: LibraryRecord[] = await promisify(
+    db.transaction(LIBRARY_STORE).objectStore(LIBRARY_STORE).getAll()
+  );
+
+  // An import interrupted by closing the tab leaves a partial title behind
+  const isInterrupted = (record: LibraryRecord) => record.importComplete === false && !importing.includes(record.id);
+  await Promise.all(records.filter(isInterrupted).map(record => deleteManga(record.id)));
+
+  const kept = records.filter(record => !isInterrupted(record));
+  kept.sort((a, b) => (a.addedAt ?? 0) - (b.addedAt ?? 0));
+
+  return Promise.all(kept.map(async ({ importComplete, ...record }) => {
+    const cover = await getPageBlob(record.id, record.coverPage ?? 0) ?? await getPageBlob(record.id, 0);
+    return { ...record, coverUrl: cover ? URL.createObjectURL(cover) : '' };
+  }));
+};
+
+// While a title is still importing, pages not yet written are read straight from its source
+export const loadManga = async (id: string, importing?: MangaSource): Promise<MangaItem> => {
+  const db = await openDB();
+  const record: LibraryRecord | undefined = await promisify(
+    db.transaction(LIBRARY_STORE).objectStore(LIBRARY_STORE).get(id)
+  );
+  if (!record) {
+    throw new Error(`Manga ${id} is not in the library.`);
+  }
+
+  const pageCount = record.pageCount ?? 0;
+  const pages = createPageProvider(pageCount, async (index) => {
+    const blob = await getPageBlob(id, index);
+    if (blob) return blob;
+    if (importing) return importing.getPage(index);
+    throw new Error(`Page ${index + 1} of ${record.title} is missing.`);
+  });
+
+  return {
+    id: record.id,
+    title: record.title,
+    pageCount,
+    pages,
+    metadata: record.metadata,
+    lastReadPage: record.lastReadPage,
+    bookmarks: record.bookmarks ?? [],
+    readerSettings: record.readerSettings,
+    chapters: record.chapters,
+    ocr: await loadPageOcr(id),
+  };
+};
+
+// Revoke the page URLs handed out for this title once the reader is done with them
+export const releaseManga = (manga: MangaItem) => {
+  manga.pages.release();
+};
+
+export const saveProgress = (id: string, page: number): Promise<void> =>
+  updateLibraryRecord(id, { lastReadPage: page, lastReadAt: Date.now() });
+
+export const saveBookmarks = (id: string, bookmarks: Bookmark[]): Promise<void> =>
+  updateLibraryRecord(id, { bookmarks });
+
+export const saveReaderSettings = (id: string, readerSettings: ReaderSettings): Promise<void> =>
+  updateLibraryRecord(id, { readerSettings });
+
+export const updateTitleRecord = (id: string, patch: Partial<TitleRecord>): Promise<void> =>
+  updateLibraryRecord(id, patch);
+
+// Every fully imported title, without building covers
+export const loadTitleRecords = async (): Promise<TitleRecord[]> => {
+  const db = await openDB();
+  const records: LibraryRecord[] = await promisify(
+    db.transaction(LIBRARY_STORE).objectStore(LIBRARY_STORE).getAll()
+  );
+  return records
+    .filter(record => record.importComplete !== false)
+    .map(({ importComplete, ...record }) => record);
+};
+
+// What the library lets the user edit on a title
+export type LibraryDetails = Pick<LibraryItem, 'title' | 'tags' | 'collectionIds'>;
+
+export const saveLibraryDetails = (id: string, details: Partial<LibraryDetails>): Promise<void> =>
+  updateLibraryRecord(id, details);
+
+// Returns a fresh URL for the new cover; the caller revokes the old one
+export const setCoverPage = async (id: string, page: number): Promise<string> => {
+  const blob = await getPageBlob(id, page);
+  if (!blob) {
+    throw new Error(`Page ${page + 1} of manga ${id} is not stored yet.`);
+  }
+  await updateLibraryRecord(id, { coverPage: page });
+  return URL.createObjectURL(blob);
+};
+
+export const deleteManga = async (id: string): Promise<void> => {
+  const db = await openDB();
+  const tx = db.transaction([LIBRARY_STORE, PAGES_STORE, OCR_STORE, THUMBNAILS_STORE], 'readwrite');
+  tx.objectStore(LIBRARY_STORE).delete(id);
+  tx.objectStore(PAGES_STORE).delete(IDBKeyRange.bound([id, 0], [id, Infinity]));
+  tx.objectStore(OCR_STORE).delete(IDBKeyRange.bound([id, 0], [id, Infinity]));
+  tx.objectStore(THUMBNAILS_STORE).delete(IDBKeyRange.bound([id, 0], [id, Infinity]));
+  await transactionDone(tx);
+};
+
+export const getStorageUsage = async (): Promise<StorageUsage> => {
+  const db = await openDB();
+  const records: LibraryRecord[] = await promisify(
+    db.transaction(LIBRARY_STORE).objectStore(LIBRARY_STORE).getAll()
+  );
+  const usage: StorageUsage = {
+    libraryBytes: records.reduce((sum, record) => sum + (record.sizeBytes ?? 0), 0),
+  };
+  if (navigator.storage?.estimate) {
+    const estimate = await navigator.storage.estimate();
+    usage.usage = estimate.usage;
+    usage.quota = estimate.quota;
+  }
+  if (navigator.storage?.persisted) {
+    usage.persisted = await navigator.storage.persisted();
+  }
+  return usage;
+};
+
+export const savePageOcr = async (record: PageOcr): Promise<void> => {
+  const db = await openDB();
+  const tx = db.transaction(OCR_STORE, 'readwrite');
+  tx.objectStore(OCR_STORE).put(record);
+  await transactionDone(tx);
+};
+
+export const loadPageOcr = async (mangaId: string): Promise<PageOcr[]> => {
+  const db = await openDB();
+  return promisify(db.transaction(OCR_STORE).objectStore(OCR_STORE).index('mangaId').getAll(mangaId));
+};
+
+// Everything analyzed so far, across the library; used to build the search index
+export const loadAllPageOcr = async (): Promise<PageOcr[]> => {
+  const db = await openDB();
+  return promisify(db.transaction(OCR_STORE).objectStore(OCR_STORE).getAll());
+};
+
+export const saveThumbnail = async (mangaId: string, index: number, blob: Blob): Promise<void> => {
+  const db = await openDB();
+  const tx = db.transaction(THUMBNAILS_STORE, 'readwrite');
+  tx.objectStore(THUMBNAILS_STORE).put({ mangaId, index, blob } as ThumbnailRecord);
+  await transactionDone(tx);
+};
+
+export const loadThumbnails = async (mangaId: string): Promise<ThumbnailRecord[]> => {
+  const db = await openDB();
+  return promisify(db.transaction(THUMBNAILS_STORE).objectStore(THUMBNAILS_STORE).index('mangaId').getAll(mangaId));
+};
+
+// Cards outlive the title they came from, so deleting a manga leaves its cards alone
+export const loadDeck = async (): Promise<DeckCard[]> => {
+  const db = await openDB();
+  const cards: DeckCard[] = await promisify(db.transaction(DECK_STORE).objectStore(DECK_STORE).getAll());
+  return cards.sort((a, b) => a.createdAt - b.createdAt);
+};
+
+export const saveDeckCard = async (card: DeckCard): Promise<void> => {
+  const db = await openDB();
+  const tx = db.transaction(DECK_STORE, 'readwrite');
+  tx.objectStore(DECK_STORE).put(card);
+  await transactionDone(tx);
+};
+
+export const deleteDeckCard = async (id: string): Promise<void> => {
+  const db = await openDB();
+  const tx = db.transaction(DECK_STORE, 'readwrite');
+  tx.objectStore(DECK_STORE).delete(id);
+  await transactionDone(tx);
+};
+
+// Settings saved by an older version may lack newer keys, so they are layered over the defaults
+export const loadSettings = async (): Promise<AppSettings> => {
+  const db = await openDB();
+  const saved: Partial<AppSettings> | undefined = await promisify(
+    db.transaction(SETTINGS_STORE).objectStore(SETTINGS_STORE).get(APP_SETTINGS_KEY)
+  );
+  return { ...DEFAULT_APP_SETTINGS, ...saved };
+};
+
+export const saveSettings = async (settings: AppSettings): Promise<void> => {
+  const db = await openDB();
+  const tx = db.transaction(SETTINGS_STORE, 'readwrite');
+  tx.objectStore(SETTINGS_STORE).put(settings, APP_SETTINGS_KEY);
+  await transactionDone(tx);
+};
+
+export const loadBackupJob = async (): Promise<BackupJob | undefined> => {
+  const db = await openDB();
+  return promisify(db.transaction(SETTINGS_STORE).objectStore(SETTINGS_STORE).get(BACKUP_JOB_KEY));
+};
+
+export const saveBackupJob = async (job: BackupJob | null): Promise<void> => {
+  const db = await openDB();
+  const tx = db.transaction(SETTINGS_STORE, 'readwrite');
+  const store = tx.objectStore(SETTINGS_STORE);
+  if (job) store.put(job, BACKUP_JOB_KEY);
+  else store.delete(BACKUP_JOB_KEY);
+  await transactionDone(tx);
+};
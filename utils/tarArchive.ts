@@ -0,0 +1,77 @@
+// Minimal ustar reading and writing for library backups. Tar needs no checksums over the data and
+// has no central directory, so an archive is just headers interleaved with the stored blobs: writing
+// one never copies a page into memory, and reading one is a scan of the headers.
+
+export interface TarEntry {
+  name: string;
+  data: Blob;
+}
+
+const BLOCK = 512;
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+const padding = (size: number) => (BLOCK - (size % BLOCK)) % BLOCK;
+
+const writeString = (header: Uint8Array, offset: number, length: number, value: string) => {
+  header.set(encoder.encode(value).subarray(0, length), offset);
+};
+
+const writeOctal = (header: Uint8Array, offset: number, length: number, value: number) => {
+  writeString(header, offset, length, value.toString(8).padStart(length - 1, '0'));
+};
+
+const createHeader = (name: string, size: number, mtime: number) => {
+  const bytes = encoder.encode(name);
+  if (bytes.length > 100) throw new Error(`Archive path is too long: ${name}`);
+  const header = new Uint8Array(BLOCK);
+  header.set(bytes, 0);
+  writeOctal(header, 100, 8, 0o644); // mode
+  writeOctal(header, 108, 8, 0); // uid
+  writeOctal(header, 116, 8, 0); // gid
+  writeOctal(header, 124, 12, size);
+  writeOctal(header, 136, 12, Math.floor(mtime / 1000));
+  header[156] = 0x30; // '0', a regular file
+  writeString(header, 257, 6, 'ustar');
+  writeString(header, 263, 2, '00');
+  // The checksum is taken with its own field read as spaces
+  header.fill(0x20, 148, 156);
+  const checksum = header.reduce((sum, byte) => sum + byte, 0);
+  writeString(header, 148, 8, `${checksum.toString(8).padStart(6, '0')}\0 `);
+  return header;
+};
+
+// The result references the entries' blobs rather than copying them
+export const createTar = (entries: TarEntry[], mtime = Date.now()): Blob => {
+  const parts: BlobPart[] = [];
+  for (const { name, data } of entries) {
+    parts.push(createHeader(name, data.size, mtime), data, new Uint8Array(padding(data.size)));
+  }
+  parts.push(new Uint8Array(BLOCK * 2));
+  return new Blob(parts, { type: 'application/x-tar' });
+};
+
+const readString = (header: Uint8Array, offset: number, length: number) => {
+  const field = header.subarray(offset, offset + length);
+  const end = field.indexOf(0);
+  return decoder.decode(end === -1 ? field : field.subarray(0, end));
+};
+
+// Entries by path, each a slice of the archive that is only read when used
+export const readTar = async (archive: Blob): Promise<Map<string, Blob>> => {
+  const entries = new Map<string, Blob>();
+  let offset = 0;
+  while (offset + BLOCK <= archive.size) {
+    const header = new Uint8Array(await archive.slice(offset, offset + BLOCK).arrayBuffer());
+    if (header.every(byte => byte === 0)) break;
+    if (readString(header, 257, 5) !== 'ustar') throw new Error("This is not a tar archive.");
+    const prefix = readString(header, 345, 155);
+    const name = (prefix ? `${prefix}/` : '') + readString(header, 0, 100);
+    const size = parseInt(readString(header, 124, 12).trim() || '0', 8);
+    const type = String.fromCharCode(header[156] || 0x30);
+    const start = offset + BLOCK;
+    if (type === '0') entries.set(name, archive.slice(start, start + size));
+    offset = start + size + padding(size);
+  }
+  return entries;
+};
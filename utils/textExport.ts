@@ -0,0 +1,151 @@
+import { MangaItem, PageOcr, ReadingDirection, SpeechBubble } from '../types';
+import { OcrCancelledError, OcrJob, OcrModel, PRIORITY_BACKGROUND } from './ocr';
+import { OcrProvider } from './ocrProviders';
+import { createSearchablePdf } from './searchablePdf';
+
+// Exports a title's recognized text, either as a transcript or as a PDF of its pages with a text
+// layer. Pages nobody has analyzed yet are run through OCR first and saved like any other analysis.
+
+export type TextExportFormat = 'markdown' | 'text' | 'pdf';
+
+export const TEXT_EXPORT_FORMATS: { format: TextExportFormat; label: string; extension: string }[] = [
+  { format: 'markdown', label: 'Markdown transcript', extension: 'md' },
+  { format: 'text', label: 'Plain text transcript', extension: 'txt' },
+  { format: 'pdf', label: 'Searchable PDF', extension: 'pdf' },
+];
+
+export interface TextExportProgress {
+  label: string;
+  done: number;
+  total: number;
+}
+
+export interface TextExportOptions {
+  provider: OcrProvider;
+  model: OcrModel;
+  source: string; // Recorded on new analyses, see PageOcr.source
+  direction: ReadingDirection;
+  onProgress: (progress: TextExportProgress) => void;
+  onPageAnalyzed: (record: PageOcr) => void;
+}
+
+export class TextExportCancelledError extends Error {
+  constructor() {
+    super("Text export was cancelled.");
+    this.name = 'TextExportCancelledError';
+  }
+}
+
+// Bubbles come back top to bottom. Ones whose middle sits above the bottom of the row so far share
+// that row, and each row is read along the reading direction.
+export const sortBubblesForReading = (bubbles: SpeechBubble[], direction: ReadingDirection): SpeechBubble[] => {
+  const rows: SpeechBubble[][] = [];
+  let rowBottom = -Infinity;
+  [...bubbles].sort((a, b) => a.box_2d[0] - b.box_2d[0]).forEach(bubble => {
+    const [ymin, , ymax] = bubble.box_2d;
+    if (rows.length && (ymin + ymax) / 2 < rowBottom) {
+      rows[rows.length - 1].push(bubble);
+      rowBottom = Math.max(rowBottom, ymax);
+    } else {
+      rows.push([bubble]);
+      rowBottom = ymax;
+    }
+  });
+  return rows.flatMap(row => row.sort((a, b) => direction === 'rtl'
+    ? b.box_2d[3] - a.box_2d[3]
+    : a.box_2d[1] - b.box_2d[1]));
+};
+
+const bubbleTexts = (bubbles: SpeechBubble[], direction: ReadingDirection) =>
+  sortBubblesForReading(bubbles, direction)
+    .map(bubble => bubble.text.trim())
+    .filter(Boolean);
+
+export const buildTranscript = (
+  title: string,
+  pages: SpeechBubble[][],
+  direction: ReadingDirection,
+  format: 'markdown' | 'text',
+): string => {
+  const sections = pages.map((bubbles, index) => {
+    const texts = bubbleTexts(bubbles, direction);
+    if (format === 'markdown') {
+      // Line breaks inside a bubble stay within its list item
+      const body = texts.length ? texts.map(text => `- ${text.replace(/\n/g, '\n  ')}`).join('\n') : '_No text_';
+      return `## Page ${index + 1}\n\n${body}`;
+    }
+    return `[Page ${index + 1}]\n${texts.length ? texts.join('\n\n') : '(no text)'}`;
+  });
+  const heading = format === 'markdown' ? `# ${title}` : title;
+  return `${heading}\n\n${sections.join('\n\n')}\n`;
+};
+
+export const exportTitleText = (
+  manga: MangaItem,
+  format: TextExportFormat,
+  options: TextExportOptions,
+): { promise: Promise<Blob>; cancel: () => void } => {
+  let cancelled = false;
+  let current: OcrJob<SpeechBubble[]> | null = null;
+  const checkCancelled = () => {
+    if (cancelled) throw new TextExportCancelledError();
+  };
+
+  const promise = (async () => {
+    const pages: SpeechBubble[][] = [];
+    (manga.ocr ?? []).forEach(record => { pages[record.index] = record.bubbles; });
+
+    // Without a working provider the missing pages are simply exported without text
+    const missing = Array.from({ length: manga.pageCount }, (_, index) => index)
+      .filter(index => !pages[index]);
+    if (options.provider.isAvailable()) {
+      for (const [done, index] of missing.entries()) {
+        checkCancelled();
+        options.onProgress({ label: `Recognizing page ${index + 1}`, done, total: missing.length });
+        current = options.provider.analyzePage(manga.pages.getPageBlob(index), {
+          model: options.model,
+          priority: PRIORITY_BACKGROUND,
+        });
+        try {
+          pages[index] = await current.promise;
+        } catch (error) {
+          if (error instanceof OcrCancelledError) throw new TextExportCancelledError();
+          throw error;
+        } finally {
+          current = null;
+        }
+        options.onPageAnalyzed({
+          mangaId: manga.id,
+          index,
+          bubbles: pages[index],
+          source: options.source,
+          analyzedAt: Date.now(),
+        });
+      }
+    }
+    const allPages = Array.from({ length: manga.pageCount }, (_, index) => pages[index] ?? []);
+
+    if (format !== 'pdf') {
+      checkCancelled();
+      const type = format === 'markdown' ? 'text/markdown' : 'text/plain';
+      return new Blob([buildTranscript(manga.title, allPages, options.direction, format)], { type: `${type};charset=utf-8` });
+    }
+
+    const pdf = createSearchablePdf(manga.title);
+    for (let index = 0; index < manga.pageCount; index++) {
+      checkCancelled();
+      options.onProgress({ label: `Adding page ${index + 1}`, done: index, total: manga.pageCount });
+      await pdf.addPage(await manga.pages.getPageBlob(index), sortBubblesForReading(allPages[index], options.direction));
+    }
+    checkCancelled();
+    return pdf.finish();
+  })();
+
+  return {
+    promise,
+    cancel: () => {
+      cancelled = true;
+      current?.cancel();
+    },
+  };
+};
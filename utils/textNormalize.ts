@@ -0,0 +1,14 @@
+// Cleans up raw OCR output before it reaches the reader.
+// NFKC folds full-width Latin letters and digits to half-width (so search and translation
+// see plain ASCII) and half-width katakana to full-width.
+
+const ELLIPSIS_PATTERN = /(?:\.{3,}|・{3,}|…+)/g;
+
+export const normalizeOcrText = (text: string, language: 'en' | 'ja'): string => {
+  const folded = text.normalize('NFKC');
+  if (language === 'ja') {
+    // Japanese decoders put spaces between subword tokens; the text itself has none
+    return folded.replace(/\s+/g, '').replace(ELLIPSIS_PATTERN, '…').trim();
+  }
+  return folded.replace(/\s+/g, ' ').trim();
+};
@@ -0,0 +1,74 @@
+import { PageProvider } from '../types';
+import { loadThumbnails, saveThumbnail } from './storage';
+
+// Small previews of every page for the reader's scrubber and page grid. They are made one page at a
+// time while the browser is idle and kept in IndexedDB, so each title only pays for them once.
+
+const THUMBNAIL_HEIGHT = 240;
+
+export const makeThumbnail = async (page: Blob): Promise<Blob> => {
+  const bitmap = await createImageBitmap(page);
+  try {
+    const scale = Math.min(1, THUMBNAIL_HEIGHT / bitmap.height);
+    const width = Math.max(1, Math.round(bitmap.width * scale));
+    const height = Math.max(1, Math.round(bitmap.height * scale));
+    const canvas = new OffscreenCanvas(width, height);
+    const ctx = canvas.getContext('2d')!;
+    ctx.imageSmoothingQuality = 'medium';
+    ctx.drawImage(bitmap, 0, 0, width, height);
+    return await canvas.convertToBlob({ type: 'image/webp', quality: 0.7 });
+  } finally {
+    bitmap.close();
+  }
+};
+
+const whenIdle = () => new Promise<void>(resolve => {
+  if ('requestIdleCallback' in window) requestIdleCallback(() => resolve(), { timeout: 1000 });
+  else setTimeout(resolve, 50);
+});
+
+// Hands every page's thumbnail URL to onThumbnail: stored ones straight away, missing ones as they
+// are made. The returned function stops the work and revokes the URLs.
+export const watchThumbnails = (
+  mangaId: string,
+  pages: PageProvider,
+  onThumbnail: (index: number, url: string) => void,
+): (() => void) => {
+  const urls: string[] = [];
+  let stopped = false;
+
+  const publish = (index: number, blob: Blob) => {
+    const url = URL.createObjectURL(blob);
+    urls.push(url);
+    onThumbnail(index, url);
+  };
+
+  const run = async () => {
+    const stored = await loadThumbnails(mangaId);
+    if (stopped) return;
+    stored.forEach(record => publish(record.index, record.blob));
+    const done = new Set(stored.map(record => record.index));
+
+    for (let index = 0; index < pages.pageCount; index++) {
+      if (done.has(index)) continue;
+      await whenIdle();
+      if (stopped) return;
+      try {
+        const thumbnail = await makeThumbnail(await pages.getPageBlob(index));
+        if (stopped) return;
+        await saveThumbnail(mangaId, index, thumbnail);
+        publish(index, thumbnail);
+      } catch (error) {
+        // A page that can't be read yet (or at all) just goes without a preview
+        console.error(`Failed to make a thumbnail of page ${index + 1}`, error);
+      }
+    }
+  };
+
+  run().catch(error => console.error("Failed to load thumbnails", error));
+
+  return () => {
+    stopped = true;
+    urls.forEach(url => URL.revokeObjectURL(url));
+  };
+};
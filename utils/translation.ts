@@ -0,0 +1,88 @@
+import { TranslationModelSpec, TranslationRequest, TranslationResponse } from './translationMessages';
+
+// Main-thread side of the translation worker, plus the languages and models it can use
+
+export interface TranslationLanguage {
+  code: string; // ISO 639-1, as used in settings and metadata
+  name: string;
+  nllb: string; // Code understood by the NLLB multilingual model
+}
+
+export const TRANSLATION_LANGUAGES: TranslationLanguage[] = [
+  { code: 'en', name: 'English', nllb: 'eng_Latn' },
+  { code: 'ja', name: 'Japanese', nllb: 'jpn_Jpan' },
+  { code: 'zh', name: 'Chinese (Simplified)', nllb: 'zho_Hans' },
+  { code: 'ko', name: 'Korean', nllb: 'kor_Hang' },
+  { code: 'es', name: 'Spanish', nllb: 'spa_Latn' },
+  { code: 'fr', name: 'French', nllb: 'fra_Latn' },
+  { code: 'de', name: 'German', nllb: 'deu_Latn' },
+  { code: 'it', name: 'Italian', nllb: 'ita_Latn' },
+  { code: 'pt', name: 'Portuguese', nllb: 'por_Latn' },
+  { code: 'ru', name: 'Russian', nllb: 'rus_Cyrl' },
+  { code: 'id', name: 'Indonesian', nllb: 'ind_Latn' },
+  { code: 'vi', name: 'Vietnamese', nllb: 'vie_Latn' },
+];
+
+// Small single-pair models where one exists; everything else goes through NLLB, which is much larger
+const PAIR_MODELS: Record<string, string> = {
+  'ja-en': 'Xenova/opus-mt-ja-en',
+  'zh-en': 'Xenova/opus-mt-zh-en',
+  'ko-en': 'Xenova/opus-mt-ko-en',
+  'en-es': 'Xenova/opus-mt-en-es',
+  'en-fr': 'Xenova/opus-mt-en-fr',
+  'en-de': 'Xenova/opus-mt-en-de',
+};
+const MULTILINGUAL_MODEL = 'Xenova/nllb-200-distilled-600M';
+
+const findLanguage = (code: string) => TRANSLATION_LANGUAGES.find(language => language.code === code);
+
+export const resolveTranslationModel = (source: string, target: string): TranslationModelSpec | null => {
+  if (source === target) return null;
+  const pair = PAIR_MODELS[`${source}-${target}`];
+  if (pair) return { repo: pair };
+  const from = findLanguage(source);
+  const to = findLanguage(target);
+  if (!from || !to) return null;
+  return { repo: MULTILINGUAL_MODEL, srcLang: from.nllb, tgtLang: to.nllb };
+};
+
+interface PendingTranslation {
+  resolve: (translations: string[]) => void;
+  reject: (error: Error) => void;
+}
+
+let worker: Worker | null = null;
+let nextId = 1;
+const pending = new Map<number, PendingTranslation>();
+
+const handleMessage = (message: TranslationResponse) => {
+  switch (message.type) {
+    case 'result':
+      pending.get(message.id)?.resolve(message.translations);
+      pending.delete(message.id);
+      break;
+    case 'failed':
+      pending.get(message.id)?.reject(new Error(message.message));
+      pending.delete(message.id);
+      break;
+  }
+};
+
+const send = (message: TranslationRequest) => {
+  if (!worker) {
+    worker = new Worker(new URL('./translationWorker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (event: MessageEvent<TranslationResponse>) => handleMessage(event.data);
+  }
+  worker.postMessage(message);
+};
+
+// Translates a batch of texts in one go; the result lines up with the input
+export const translateTexts = (texts: string[], source: string, target: string): Promise<string[]> => {
+  const model = resolveTranslationModel(source, target);
+  if (!model || texts.length === 0) return Promise.resolve(texts);
+  const id = nextId++;
+  return new Promise((resolve, reject) => {
+    pending.set(id, { resolve, reject });
+    send({ type: 'translate', id, model, texts });
+  });
+};
@@ -0,0 +1,19 @@
+// Message protocol between utils/translation.ts (main thread) and utils/translationWorker.ts
+
+export interface TranslationModelSpec {
+  repo: string;
+  // Multilingual models need the pair spelled out in their own language codes
+  srcLang?: string;
+  tgtLang?: string;
+}
+
+export interface TranslationRequest {
+  type: 'translate';
+  id: number;
+  model: TranslationModelSpec;
+  texts: string[];
+}
+
+export type TranslationResponse =
+  | { type: 'result'; id: number; translations: string[] }
+  | { type: 'failed'; id: number; message: string };
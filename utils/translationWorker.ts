@@ -0,0 +1,42 @@
+import { pipeline } from '@huggingface/transformers';
+import './modelEnv';
+import { TranslationModelSpec, TranslationRequest, TranslationResponse } from './translationMessages';
+
+// Translation runs apart from OCR so a long page-analysis queue never holds up a popover.
+// Requests are handled one at a time, in the order they arrive.
+
+const scope = self as unknown as Worker;
+const post = (message: TranslationResponse) => scope.postMessage(message);
+
+// Only one model is kept in memory; a different language pair unloads the previous one
+let loaded: { repo: string; pipe: Promise<any> } | null = null;
+
+const loadModel = ({ repo }: TranslationModelSpec) => {
+  if (loaded?.repo !== repo) {
+    loaded?.pipe.then(pipe => pipe.dispose(), () => undefined);
+    const pipe = pipeline('translation', repo, { dtype: 'q8' });
+    loaded = { repo, pipe };
+    pipe.catch(() => {
+      if (loaded?.pipe === pipe) loaded = null;
+    });
+  }
+  return loaded!.pipe;
+};
+
+const translate = async ({ id, model, texts }: TranslationRequest) => {
+  try {
+    const pipe = await loadModel(model);
+    const options = model.srcLang ? { src_lang: model.srcLang, tgt_lang: model.tgtLang } : {};
+    const output: { translation_text: string }[] = await pipe(texts, options);
+    post({ type: 'result', id, translations: output.map(item => item.translation_text.trim()) });
+  } catch (error) {
+    post({ type: 'failed', id, message: error instanceof Error ? error.message : String(error) });
+  }
+};
+
+let queue: Promise<void> = Promise.resolve();
+
+scope.onmessage = (event: MessageEvent<TranslationRequest>) => {
+  const message = event.data;
+  queue = queue.then(() => translate(message));
+};
@@ -1,39 +1,27 @@
 import JSZip from 'jszip';
-import { MangaItem } from '../types';
+import { ArchiveSource, asImageBlob, partitionPageNames } from './fileUtils';
+import { COMIC_INFO_NAME } from './metadata';
 
-export const processMangaFile = async (file: File): Promise<MangaItem> => {
+// Only the central directory is parsed up front; each page is inflated when requested
+export const openZipSource = async (file: Blob): Promise<ArchiveSource> => {
   const zip = new JSZip();
   const zipContent = await zip.loadAsync(file);
-  
-  const imageFiles: { name: string; blob: Blob }[] = [];
 
-  // Iterate over files in the zip
-  const entries = Object.keys(zipContent.files).filter((filename) => {
-    // Filter out directories and non-image files (basic check)
-    return !zipContent.files[filename].dir && /\.(jpg|jpeg|png|webp|gif)$/i.test(filename);
-  });
+  const { pageNames, ignoredNames } = partitionPageNames(
+    Object.keys(zipContent.files).filter(filename => !zipContent.files[filename].dir)
+  );
 
-  // Sort alphanumerically to ensure correct page order
-  // Using 'numeric' collation handles "1.jpg", "2.jpg", "10.jpg" correctly
-  entries.sort((a, b) => a.localeCompare(b, undefined, { numeric: true, sensitivity: 'base' }));
-
-  for (const filename of entries) {
-    const fileData = zipContent.files[filename];
-    const blob = await fileData.async('blob');
-    imageFiles.push({ name: filename, blob });
-  }
-
-  if (imageFiles.length === 0) {
-    throw new Error("No valid images found in the archive.");
-  }
-
-  // Create Object URLs
-  const pages = imageFiles.map(img => URL.createObjectURL(img.blob));
+  const comicInfoName = Object.keys(zipContent.files).find(name => COMIC_INFO_NAME.test(name));
+  const comicInfo = comicInfoName ? await zipContent.files[comicInfoName].async('text') : undefined;
 
   return {
-    id: crypto.randomUUID(),
-    title: file.name.replace(/\.(cbz|zip)$/i, ''),
-    coverUrl: pages[0], // Use first page as cover
-    pages: pages,
+    pageNames,
+    comicInfo,
+    ignoredNames,
+    getPage: async (index) => {
+      const name = pageNames[index];
+      return asImageBlob(await zipContent.files[name].async('blob'), name);
+    },
+    close: async () => undefined,
   };
-};
\ No newline at end of file
+};
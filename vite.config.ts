@@ -1,7 +1,36 @@
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import fs from 'fs';
+import { createHash } from 'crypto';
+import { defineConfig, loadEnv, Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
 
+// Fills in public/sw.js once the build is written: the service worker precaches every emitted
+// file, and its cache version changes whenever any of them does.
+const precacheServiceWorker = (): Plugin => {
+  let outDir = '';
+  return {
+    name: 'precache-service-worker',
+    apply: 'build',
+    configResolved(config) {
+      outDir = config.build.outDir;
+    },
+    closeBundle() {
+      const swPath = path.resolve(outDir, 'sw.js');
+      if (!fs.existsSync(swPath)) return;
+      const files = (fs.readdirSync(outDir, { recursive: true }) as string[])
+        .map(file => file.split(path.sep).join('/'))
+        .filter(file => file !== 'sw.js' && fs.statSync(path.resolve(outDir, file)).isFile())
+        .sort();
+      const hash = createHash('sha256');
+      files.forEach(file => hash.update(file).update(fs.readFileSync(path.resolve(outDir, file))));
+      const source = fs.readFileSync(swPath, 'utf8')
+        .replace('__PRECACHE_VERSION__', hash.digest('hex').slice(0, 12))
+        .replace('/* __PRECACHE_FILES__ */ []', JSON.stringify(files));
+      fs.writeFileSync(swPath, source);
+    },
+  };
+};
+
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
     return {
@@ -9,7 +38,11 @@ export default defineConfig(({ mode }) => {
         port: 3000,
         host: '0.0.0.0',
       },
-      plugins: [react()],
+      plugins: [react(), precacheServiceWorker()],
+      optimizeDeps: {
+        // libarchive.js locates its worker and WASM via import.meta.url, which pre-bundling breaks
+        exclude: ['libarchive.js'],
+      },
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
         'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)